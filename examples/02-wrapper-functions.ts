@@ -3,7 +3,7 @@
  * Demonstra como transformar funções existentes em funções que retornam Results
  */
 
-import { AuthenticationError, AuthorizationError, ConflictError, NotFoundError, ValidationError } from '.';
+import { AuthenticationError, AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../src';
 import { 
   ResultWrapper, 
   ResultAsyncWrapper,
@@ -2,7 +2,7 @@
  * Exemplos completos das novas funções de wrapping de valores
  * ResultWrapValue e ResultWrapValueAsync
  */
-import { ValidationError } from '.';
+import { ValidationError } from '../src';
 import { 
   ResultWrapValue, 
   ResultWrapValueAsync,
@@ -3,7 +3,7 @@
  * Demonstra como compor múltiplos Use Cases e operações
  */
 
-import { ValidationError } from '.';
+import { ValidationError } from '../src';
 
 import { 
   UseCase, 
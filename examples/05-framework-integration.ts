@@ -3,9 +3,11 @@
  * NestJS, Express, e outros casos de uso práticos
  */
 
-import { NotFoundError, ValidationError } from '.';
+import { NotFoundError, ValidationError } from '../src';
 
 import { 
+  Container,
+  setUseCaseResolver,
   UseCase, 
   Success, 
   Failure, 
@@ -13,6 +15,7 @@ import {
   ResultWrapper,
   ResultAsyncWrapper,
   ResultWrapValue,
+  validate,
 } from '../src';
 
 // =============================================================================
@@ -91,16 +94,11 @@ class CreateUserUseCase extends UseCase<CreateUserInput, CreateUserOutput> {
     console.log('🏗️ Executando CreateUserUseCase...');
 
     // 1. Validar input usando ResultWrapValue
-    const inputValidation = ResultWrapValue(input, {
-      customValidation: (data) => {
-        const errors: string[] = [];
-        if (!data.name || data.name.length < 2) errors.push('Nome deve ter pelo menos 2 caracteres');
-        if (!data.email?.includes('@')) errors.push('Email inválido');
-        if (!data.password || data.password.length < 8) errors.push('Senha deve ter pelo menos 8 caracteres');
-        return errors.length > 0 ? errors.join(', ') : true;
-      },
-      defaultFailureType: 'VALIDATION_ERROR'
-    });
+    const inputValidation = validate(input)
+      .field('name', (name) => name.check((v) => !!v && v.length >= 2, 'Nome deve ter pelo menos 2 caracteres', 'too_short'))
+      .field('email', (email) => email.check((v) => !!v?.includes('@'), 'Email inválido', 'invalid_format'))
+      .field('password', (password) => password.check((v) => !!v && v.length >= 8, 'Senha deve ter pelo menos 8 caracteres', 'too_short'))
+      .toResult();
 
     if (inputValidation.isFailure()) {
       return Failure(inputValidation.getError(), inputValidation.getType());
@@ -244,6 +242,25 @@ async function nestjsExample() {
   } catch (error) {
     console.log('   Erro capturado:', (error as Error).message);
   }
+
+  // Teste 4: UseCase.call com dependências vindas de um container
+  console.log('\n📝 Criando usuário via UseCase.call com container:');
+  const container = new Container()
+    .registerValue(UserRepository, userRepository)
+    .registerValue(PasswordService, passwordService)
+    .registerValue(EmailService, emailService)
+    .register(
+      CreateUserUseCase,
+      c => new CreateUserUseCase(c.resolve(UserRepository), c.resolve(PasswordService), c.resolve(EmailService)),
+    );
+  setUseCaseResolver(container);
+
+  const result4 = await CreateUserUseCase.call({
+    name: 'Ana Souza',
+    email: 'ana@test.com',
+    password: 'senha123456'
+  });
+  console.log('   Resultado:', result4.isSuccess() ? '✅ criado' : `❌ ${result4.getType()}`);
 }
 
 // =============================================================================
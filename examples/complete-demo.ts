@@ -3,7 +3,7 @@
  * sem erros de tipos - ideal para demonstração
  */
 
-import { NotFoundError, ValidationError } from '.';
+import { NotFoundError, ValidationError } from '../src';
 
 import { 
   UseCase, 
@@ -9,6 +9,7 @@ async function quickDemo() {
         Failure,
         ResultWrapper,
         ResultWrapValue,
+        ValidationError,
     } = await import('../src');
 
     // 1. Use Case básico
@@ -123,44 +124,3 @@ export {
     runAllExamples,
     quickDemo,
 };
-
-// Classe de erro para validação
-export class ValidationError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = 'ValidationError';
-    }
-}
-
-// Classe de erro para autenticação
-export class AuthenticationError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = 'AuthenticationError';
-    }
-}
-
-// Classe de erro para autorização
-export class AuthorizationError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = 'AuthorizationError';
-    }
-}
-
-// Classe de erro para recursos não encontrados
-export class NotFoundError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = 'NotFoundError';
-    }
-}
-
-// Classe de erro para conflitos de dados
-export class ConflictError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = 'ConflictError';
-    }
-}
-
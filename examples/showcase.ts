@@ -10,7 +10,7 @@
  * ou: npx ts-node showcase.ts
  */
 
-import { NotFoundError, ValidationError } from '.';
+import { NotFoundError, ValidationError } from '../src';
 import {
   UseCase,
   Success,
@@ -2,7 +2,7 @@
  * Exemplos práticos de como usar ResultWrapValue e ResultWrapValueAsync
  * para envolver valores já executados em Results
  */
-import { ValidationError } from '.';
+import { ValidationError } from '../src';
 
 import { 
   ResultWrapValue, 
@@ -0,0 +1,129 @@
+import { Bulkhead } from './bulkhead';
+import { BulkheadFullError } from './errors';
+import { Failure, Result, Success } from './result';
+import { UseCase } from './use-case';
+
+const pending: (() => void)[] = [];
+
+const blocked = (): Promise<Result<string>> =>
+  new Promise(resolve => pending.push(() => resolve(Success('done'))));
+
+const release = (): void => pending.shift()?.();
+
+const rejected = (error: BulkheadFullError): Result<string> => Failure(error, error.failureType);
+
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+afterEach(() => {
+  while (pending.length > 0) release();
+});
+
+describe('Bulkhead', () => {
+  it('should run up to maxConcurrent operations at once', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 2 });
+
+    const first = bulkhead.execute(blocked, rejected);
+    const second = bulkhead.execute(blocked, rejected);
+    const third = await bulkhead.execute(blocked, rejected);
+
+    expect(third.getType()).toBe('BULKHEAD_FULL');
+    expect(third.getError()).toBeInstanceOf(BulkheadFullError);
+    expect(bulkhead.stats).toEqual({ active: 2, queued: 0, rejected: 1 });
+
+    release();
+    release();
+    expect((await first).isSuccess()).toBe(true);
+    expect((await second).isSuccess()).toBe(true);
+    expect(bulkhead.stats.active).toBe(0);
+  });
+
+  it('should queue calls up to maxQueued and run them when a slot frees', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueued: 1 });
+
+    const first = bulkhead.execute(blocked, rejected);
+    const queued = bulkhead.execute(blocked, rejected);
+    const overflow = await bulkhead.execute(blocked, rejected);
+
+    expect(overflow.getType()).toBe('BULKHEAD_FULL');
+    expect(bulkhead.stats).toEqual({ active: 1, queued: 1, rejected: 1 });
+
+    release();
+    await first;
+    await flush();
+
+    expect(bulkhead.stats).toEqual({ active: 1, queued: 0, rejected: 1 });
+
+    release();
+    expect((await queued).getValue()).toBe('done');
+  });
+
+  it('should hand the freed slot to the queued call before new calls', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueued: 1 });
+    const queuedOperation = jest.fn(blocked);
+    const lateOperation = jest.fn(blocked);
+
+    const first = bulkhead.execute(blocked, rejected);
+    const queued = bulkhead.execute(queuedOperation, rejected);
+    release();
+    await first;
+    const late = bulkhead.execute(lateOperation, rejected);
+    await flush();
+
+    expect(queuedOperation).toHaveBeenCalled();
+    expect(lateOperation).not.toHaveBeenCalled();
+    expect(bulkhead.stats).toEqual({ active: 1, queued: 1, rejected: 0 });
+
+    release();
+    await queued;
+    await flush();
+    release();
+    expect((await late).isSuccess()).toBe(true);
+  });
+
+  it('should reject queued calls after maxWaitMs', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueued: 1, maxWaitMs: 5 });
+
+    bulkhead.execute(blocked, rejected);
+    const queued = await bulkhead.execute(blocked, rejected);
+
+    expect(queued.getError().message).toBe('No slot freed within 5ms');
+    expect(bulkhead.stats).toEqual({ active: 1, queued: 0, rejected: 1 });
+  });
+
+  it('should remove queued calls whose signal is aborted', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueued: 1 });
+    const controller = new AbortController();
+    const operation = jest.fn(blocked);
+
+    bulkhead.execute(blocked, rejected);
+    const queued = bulkhead.execute(operation, rejected, controller.signal);
+    controller.abort();
+    await queued;
+    release();
+    await flush();
+
+    expect(operation).not.toHaveBeenCalled();
+    expect(bulkhead.stats).toEqual({ active: 0, queued: 0, rejected: 0 });
+  });
+
+  describe('use case bulkhead', () => {
+    it('should return BULKHEAD_FULL failures for calls beyond the limit', async () => {
+      class ImportRowsUseCase extends UseCase<string, string> {
+        static bulkhead = new Bulkhead({ maxConcurrent: 1 });
+
+        execute(): Promise<Result<string>> {
+          return blocked();
+        }
+      }
+
+      const running = ImportRowsUseCase.call('a');
+      await flush();
+      const result = await ImportRowsUseCase.call('b');
+      release();
+
+      expect(result.getType()).toBe('BULKHEAD_FULL');
+      expect(result.useCaseClass).toBe('ImportRowsUseCase');
+      expect((await running).isSuccess()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { BulkheadFullError } from './errors';
+import type { UseCaseMiddleware } from './middleware';
+import { Failure, type Result } from './result';
+
+/**
+ * Bulkhead configuration.
+ *
+ * - `maxConcurrent`: executions allowed at once
+ * - `maxQueued`: calls allowed to wait for a free slot (0 by default). Calls beyond it are
+ *   rejected with `BULKHEAD_FULL`
+ * - `maxWaitMs`: how long a queued call waits before being rejected (no limit by default)
+ */
+export type BulkheadOptions = {
+  maxConcurrent: number;
+  maxQueued?: number;
+  maxWaitMs?: number;
+};
+
+/**
+ * Live counters of a bulkhead.
+ */
+export type BulkheadStats = {
+  active: number;
+  queued: number;
+  rejected: number;
+};
+
+type Waiter = {
+  admit: () => void;
+};
+
+type WaitOutcome = 'admitted' | 'timeout' | 'aborted';
+
+/**
+ * Limits how many executions of an operation run at once. Share one instance between every
+ * call to the limited resource, for instance as the `bulkhead` of a use case class.
+ *
+ * @example
+ * class ImportRowsUseCase extends UseCase<Row[], number> {
+ *   static bulkhead = new Bulkhead({ maxConcurrent: 4, maxQueued: 20 });
+ * }
+ */
+export class Bulkhead {
+  private active = 0;
+  private rejected = 0;
+  private queue: Waiter[] = [];
+
+  constructor(private readonly options: BulkheadOptions) {}
+
+  get stats(): BulkheadStats {
+    return { active: this.active, queued: this.queue.length, rejected: this.rejected };
+  }
+
+  /**
+   * Runs the operation once a slot is free.
+   *
+   * @param operation Operation limited by the bulkhead
+   * @param onReject Builds the Result returned when the call cannot get a slot
+   * @param signal Removes the call from the queue once aborted
+   * @returns The Result of the operation, or the one built by `onReject`
+   */
+  async execute<R extends Result<any, any, any>>(
+    operation: () => Promise<R>,
+    onReject: (error: BulkheadFullError) => R,
+    signal?: AbortSignal,
+  ): Promise<R> {
+    const { maxConcurrent, maxQueued = 0, maxWaitMs } = this.options;
+    const limits = { maxConcurrent, maxQueued };
+
+    if (this.active >= maxConcurrent) {
+      if (this.queue.length >= maxQueued) {
+        this.rejected += 1;
+        return onReject(new BulkheadFullError('Bulkhead full', { details: limits }));
+      }
+
+      const outcome = await this.wait(maxWaitMs, signal);
+      if (outcome === 'aborted') {
+        return onReject(new BulkheadFullError('Left the bulkhead queue', { details: limits }));
+      }
+      if (outcome === 'timeout') {
+        this.rejected += 1;
+        return onReject(
+          new BulkheadFullError(`No slot freed within ${maxWaitMs}ms`, { details: limits }),
+        );
+      }
+    } else {
+      this.active += 1;
+    }
+
+    try {
+      return await operation();
+    } finally {
+      // The slot goes straight to the next queued call, so new calls cannot take it first
+      const waiter = this.queue.shift();
+      if (waiter) {
+        waiter.admit();
+      } else {
+        this.active -= 1;
+      }
+    }
+  }
+
+  /**
+   * Waits in the queue until a slot is handed over, the wait times out or the signal
+   * is aborted.
+   */
+  private wait(maxWaitMs: number | undefined, signal?: AbortSignal): Promise<WaitOutcome> {
+    if (signal?.aborted) {
+      return Promise.resolve('aborted');
+    }
+
+    return new Promise<WaitOutcome>(resolve => {
+      const settle = (outcome: WaitOutcome): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        if (outcome !== 'admitted') {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+        }
+        resolve(outcome);
+      };
+      const onAbort = (): void => settle('aborted');
+      const waiter: Waiter = { admit: () => settle('admitted') };
+      const timer =
+        maxWaitMs !== undefined ? setTimeout(() => settle('timeout'), maxWaitMs) : undefined;
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+    });
+  }
+}
+
+/**
+ * Built-in middleware running `execute` through the class's `bulkhead`. Calls that cannot
+ * get a slot return a `BULKHEAD_FULL` failure.
+ */
+export const bulkheadMiddleware: UseCaseMiddleware<unknown, unknown> = (
+  input,
+  useCase,
+  next,
+  execution,
+) => {
+  const { bulkhead } = useCase.constructor as { bulkhead?: Bulkhead };
+
+  if (!bulkhead) {
+    return next();
+  }
+
+  return bulkhead.execute(
+    () => next(),
+    error => Failure(error, error.failureType, {}, useCase.constructor.name),
+    execution?.signal,
+  );
+};
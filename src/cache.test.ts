@@ -0,0 +1,180 @@
+import { type CachePolicy, invalidateCache, MemoryCacheStore, stableKey } from './cache';
+import { getDebugLogger } from './debug';
+import { NotFoundError } from './errors';
+import { Result, Success } from './result';
+import { UseCase } from './use-case';
+
+let clock = 0;
+const now = (): number => clock;
+
+const products: Record<string, string> = { '1': 'Keyboard', '2': 'Mouse' };
+const execute = jest.fn(async ({ id }: { id: string }): Promise<Result<string>> => {
+  if (!products[id]) throw new NotFoundError(`Product ${id} not found`);
+  return Success(products[id]);
+});
+
+class GetProductUseCase extends UseCase<{ id: string }, string> {
+  static cachePolicy: CachePolicy<{ id: string }> = { ttlMs: 1000, now };
+
+  execute = execute;
+}
+
+beforeEach(async () => {
+  clock = 0;
+  execute.mockClear();
+  await invalidateCache(GetProductUseCase);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Cache', () => {
+  describe('MemoryCacheStore', () => {
+    const entry = { result: Success(1), expiresAt: Infinity };
+
+    it('should evict the least recently used entry', () => {
+      const store = new MemoryCacheStore(2);
+
+      store.set('a', entry);
+      store.set('b', entry);
+      store.get('a');
+      store.set('c', entry);
+
+      expect(store.get('a')).toBe(entry);
+      expect(store.get('b')).toBeUndefined();
+      expect(store.size).toBe(2);
+    });
+
+    it('should clear the entries with a prefix', () => {
+      const store = new MemoryCacheStore();
+      store.set('Users:1', entry);
+      store.set('Orders:1', entry);
+
+      store.clear('Users:');
+
+      expect(store.get('Users:1')).toBeUndefined();
+      expect(store.get('Orders:1')).toBe(entry);
+    });
+  });
+
+  describe('stableKey', () => {
+    it('should not depend on the order of object keys', () => {
+      expect(stableKey({ b: 1, a: { d: 2, c: [3] } })).toBe(
+        stableKey({ a: { c: [3], d: 2 }, b: 1 }),
+      );
+    });
+  });
+
+  describe('use case cache policy', () => {
+    it('should reuse the Result of an earlier call with the same input', async () => {
+      const first = await GetProductUseCase.call({ id: '1' });
+      const second = await GetProductUseCase.call({ id: '1' });
+
+      expect(second.getValue()).toBe('Keyboard');
+      expect(second.context.cache).toEqual({ hit: true, key: 'GetProductUseCase:{"id":"1"}' });
+      expect(second.context).toHaveProperty('GetProductUseCase');
+      expect(first.context).not.toHaveProperty('cache');
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run execute again once the entry expired', async () => {
+      await GetProductUseCase.call({ id: '1' });
+
+      clock = 1000;
+      const result = await GetProductUseCase.call({ id: '1' });
+
+      expect(result.context).not.toHaveProperty('cache');
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failures by default', async () => {
+      await GetProductUseCase.call({ id: '9' });
+      await GetProductUseCase.call({ id: '9' });
+
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache the chosen failure types for their own TTL', async () => {
+      const lookup = jest.fn(async (): Promise<Result<string>> => {
+        throw new NotFoundError('Missing');
+      });
+
+      class FindSkuUseCase extends UseCase<string, string> {
+        static cachePolicy: CachePolicy<string> = {
+          ttlMs: 1000,
+          cacheFailures: ['NOT_FOUND'],
+          failureTtlMs: 100,
+          now,
+        };
+
+        execute = lookup;
+      }
+
+      await FindSkuUseCase.call('x');
+      const cached = await FindSkuUseCase.call('x');
+      clock = 100;
+      await FindSkuUseCase.call('x');
+
+      expect(cached.getType()).toBe('NOT_FOUND');
+      expect(cached.context.cache.hit).toBe(true);
+      expect(lookup).toHaveBeenCalledTimes(2);
+    });
+
+    it('should build keys with the configured key function', async () => {
+      class GetPriceUseCase extends UseCase<{ sku: string; traceId: string }, number> {
+        static cachePolicy: CachePolicy<{ sku: string }> = { ttlMs: 1000, key: ({ sku }) => sku };
+
+        execute = jest.fn(async (): Promise<Result<number>> => Success(10));
+      }
+
+      await GetPriceUseCase.call({ sku: 'a', traceId: '1' });
+      const result = await GetPriceUseCase.call({ sku: 'a', traceId: '2' });
+
+      expect(result.context.cache.key).toBe('GetPriceUseCase:a');
+    });
+
+    it('should use the configured store', async () => {
+      const store = new MemoryCacheStore();
+      const set = jest.spyOn(store, 'set');
+
+      class GetStockUseCase extends UseCase<string, number> {
+        static cachePolicy: CachePolicy<string> = { ttlMs: 1000, store };
+
+        async execute(): Promise<Result<number>> {
+          return Success(3);
+        }
+      }
+
+      await GetStockUseCase.call('a');
+
+      expect(set).toHaveBeenCalledWith('GetStockUseCase:"a"', expect.any(Object));
+    });
+
+    it('should invalidate one input or every entry of the class', async () => {
+      await GetProductUseCase.call({ id: '1' });
+      await GetProductUseCase.call({ id: '2' });
+
+      await invalidateCache(GetProductUseCase, { id: '1' });
+      await GetProductUseCase.call({ id: '1' });
+      await GetProductUseCase.call({ id: '2' });
+      expect(execute).toHaveBeenCalledTimes(3);
+
+      await invalidateCache(GetProductUseCase);
+      await GetProductUseCase.call({ id: '2' });
+      expect(execute).toHaveBeenCalledTimes(4);
+    });
+
+    it('should report hits through the debug logger', async () => {
+      const logCacheHit = jest
+        .spyOn(getDebugLogger(), 'logCacheHit')
+        .mockImplementation(() => undefined);
+
+      await GetProductUseCase.call({ id: '2' });
+      await GetProductUseCase.call({ id: '2' });
+
+      expect(logCacheHit).toHaveBeenCalledTimes(1);
+      expect(logCacheHit).toHaveBeenCalledWith('GetProductUseCase', 'GetProductUseCase:{"id":"2"}');
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import type { UseCaseMiddleware } from './middleware';
+import type { Result } from './result';
+
+/**
+ * A cached Result and the time (in ms since the epoch) it expires at.
+ */
+export type CacheEntry = {
+  result: Result<any, any, any>;
+  expiresAt: number;
+};
+
+/**
+ * Storage for cached Results. Methods may be synchronous or return promises, so remote
+ * stores (Redis, Memcached…) can be plugged in; they can store `result.toJSON()` and
+ * rebuild it with `Result.fromJSON()`.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  /** Removes every entry, or only those whose key starts with `prefix` */
+  clear(prefix?: string): void | Promise<void>;
+}
+
+/**
+ * Cache configuration.
+ *
+ * - `ttlMs`: how long a successful Result is reused
+ * - `key`: builds the cache key from the input. By default the input is serialized to JSON
+ *   with sorted object keys
+ * - `cacheFailures`: failure types cached too (negative caching), for `failureTtlMs`
+ *   (`ttlMs` by default). Other failures are never cached
+ * - `store`: where Results are kept; a MemoryCacheStore holding `maxEntries` (1000 by
+ *   default) is used otherwise
+ * - `now`: replaces the clock, for instance in tests
+ */
+export type CachePolicy<I = any> = {
+  ttlMs: number;
+  key?: (input: I) => string;
+  cacheFailures?: readonly string[];
+  failureTtlMs?: number;
+  store?: CacheStore;
+  maxEntries?: number;
+  now?: () => number;
+};
+
+/**
+ * Stored under `context.cache` on Results served from the cache.
+ */
+export type CacheRecord = {
+  hit: true;
+  key: string;
+};
+
+/**
+ * In-memory store that evicts the least recently used entry once `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      // Map keeps insertion order: moving the entry to the end marks it as recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    if (this.entries.size > this.maxEntries) {
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(prefix?: string): void {
+    if (prefix === undefined) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Serializes a value to JSON with sorted object keys, so equal inputs get equal keys.
+ */
+export const stableKey = (value: unknown): string => {
+  return (
+    JSON.stringify(value, (_key, nested: unknown) => {
+      if (nested === null || typeof nested !== 'object' || Array.isArray(nested)) {
+        return nested;
+      }
+      return Object.fromEntries(
+        Object.entries(nested as Record<string, unknown>).sort(([a], [b]) => (a < b ? -1 : 1)),
+      );
+    }) ?? ''
+  );
+};
+
+type CachedUseCaseClass = {
+  name: string;
+  cachePolicy?: CachePolicy<any>;
+};
+
+const defaultStores = new WeakMap<CachePolicy<any>, CacheStore>();
+
+const storeOf = (policy: CachePolicy<any>): CacheStore => {
+  if (policy.store) return policy.store;
+
+  let store = defaultStores.get(policy);
+  if (!store) {
+    store = new MemoryCacheStore(policy.maxEntries);
+    defaultStores.set(policy, store);
+  }
+  return store;
+};
+
+const cacheKey = (
+  useCaseClass: CachedUseCaseClass,
+  policy: CachePolicy<any>,
+  input: unknown,
+): string => `${useCaseClass.name}:${(policy.key ?? stableKey)(input)}`;
+
+/**
+ * Removes cached Results of a use case class: the one for `input`, or all of them when
+ * `input` is undefined.
+ *
+ * @example
+ * await invalidateCache(GetProductUseCase, { id: '42' });
+ */
+export const invalidateCache = async <I>(
+  useCaseClass: CachedUseCaseClass & { cachePolicy?: CachePolicy<I> },
+  input?: I,
+): Promise<void> => {
+  const policy = useCaseClass.cachePolicy;
+  if (!policy) return;
+
+  const store = storeOf(policy);
+
+  if (input !== undefined) {
+    await store.delete(cacheKey(useCaseClass, policy, input));
+  } else {
+    await store.clear(`${useCaseClass.name}:`);
+  }
+};
+
+/**
+ * Built-in middleware serving Results from the class's `cachePolicy`. A hit skips the rest
+ * of the pipeline and is marked with `context.cache`.
+ */
+export const cacheMiddleware: UseCaseMiddleware<unknown, unknown> = async (
+  input,
+  useCase,
+  next,
+) => {
+  const useCaseClass = useCase.constructor as CachedUseCaseClass;
+  const policy = useCaseClass.cachePolicy;
+
+  if (!policy) {
+    return next();
+  }
+
+  const store = storeOf(policy);
+  const key = cacheKey(useCaseClass, policy, input);
+  const now = (policy.now ?? Date.now)();
+
+  const entry = await store.get(key);
+  if (entry && entry.expiresAt > now) {
+    const cache: CacheRecord = { hit: true, key };
+    return entry.result.withContext({ cache });
+  }
+
+  const result = await next();
+  const { cacheFailures = [], failureTtlMs = policy.ttlMs } = policy;
+
+  if (result.isSuccess()) {
+    await store.set(key, { result, expiresAt: now + policy.ttlMs });
+  } else if (cacheFailures.includes(result.getType())) {
+    await store.set(key, { result, expiresAt: now + failureTtlMs });
+  }
+
+  return result;
+};
@@ -0,0 +1,177 @@
+import { abortReason, createCallSignal, raceAbort } from './cancellation';
+import { CancelledError, TimeoutError } from './errors';
+import type { UseCaseExecution } from './middleware';
+import { type RetryPolicy } from './retry';
+import { Result, Success } from './result';
+import { UseCase } from './use-case';
+
+const hang = <T>(): Promise<T> => new Promise<T>(() => undefined);
+
+class SlowUseCase extends UseCase<number, number> {
+  static signals: AbortSignal[] = [];
+
+  async execute(input: number, execution?: UseCaseExecution): Promise<Result<number>> {
+    SlowUseCase.signals.push(execution!.signal);
+    return hang();
+  }
+}
+
+class DoubleUseCase extends UseCase<number, number> {
+  async execute(input: number): Promise<Result<number>> {
+    return Success(input * 2);
+  }
+}
+
+afterEach(() => {
+  SlowUseCase.signals = [];
+});
+
+describe('Cancellation', () => {
+  describe('abortReason', () => {
+    it('should keep timeout and cancellation errors', () => {
+      const error = new TimeoutError('Too slow');
+      const controller = new AbortController();
+      controller.abort(error);
+
+      expect(abortReason(controller.signal)).toBe(error);
+    });
+
+    it('should map AbortSignal.timeout() reasons to TimeoutErrors', () => {
+      const controller = new AbortController();
+      controller.abort(Object.assign(new Error('Signal timed out'), { name: 'TimeoutError' }));
+
+      expect(abortReason(controller.signal)).toBeInstanceOf(TimeoutError);
+    });
+
+    it('should wrap any other reason in a CancelledError', () => {
+      const controller = new AbortController();
+      controller.abort('user left');
+
+      const reason = abortReason(controller.signal);
+
+      expect(reason).toBeInstanceOf(CancelledError);
+      expect(reason.cause).toBe('user left');
+    });
+  });
+
+  describe('createCallSignal', () => {
+    it('should abort with a TimeoutError once the time runs out', async () => {
+      const { signal, dispose } = createCallSignal({ timeoutMs: 5 });
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      dispose();
+
+      expect(signal.reason).toBeInstanceOf(TimeoutError);
+    });
+
+    it('should follow the caller signal until disposed', () => {
+      const first = new AbortController();
+      const second = new AbortController();
+      const followed = createCallSignal({ signal: first.signal });
+      const disposed = createCallSignal({ signal: second.signal });
+
+      disposed.dispose();
+      first.abort();
+      second.abort();
+
+      expect(followed.signal.reason).toBeInstanceOf(CancelledError);
+      expect(disposed.signal.aborted).toBe(false);
+    });
+
+    it('should start aborted when the caller signal already is', () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      expect(createCallSignal({ signal: controller.signal }).signal.aborted).toBe(true);
+    });
+  });
+
+  describe('raceAbort', () => {
+    it('should resolve with the promise when it settles first', async () => {
+      const { signal } = new AbortController();
+
+      await expect(raceAbort(Promise.resolve(1), signal, () => 0)).resolves.toBe(1);
+    });
+
+    it('should resolve with the abort value when the signal aborts first', async () => {
+      const controller = new AbortController();
+      const race = raceAbort(hang<string>(), controller.signal, reason => reason.failureType);
+
+      controller.abort();
+
+      await expect(race).resolves.toBe('CANCELLED');
+    });
+  });
+
+  describe('use case calls', () => {
+    it('should return a TIMEOUT failure and abort the signal handed to execute', async () => {
+      const result = await SlowUseCase.call(1, { timeoutMs: 10 });
+
+      expect(result.getType()).toBe('TIMEOUT');
+      expect(result.getError()).toBeInstanceOf(TimeoutError);
+      expect(result.useCaseClass).toBe('SlowUseCase');
+      expect(SlowUseCase.signals[0].aborted).toBe(true);
+    });
+
+    it('should return a CANCELLED failure when the caller aborts', async () => {
+      const controller = new AbortController();
+
+      const promise = new SlowUseCase().call(1, { signal: controller.signal });
+      controller.abort('Request closed');
+      const result = await promise;
+
+      expect(result.getType()).toBe('CANCELLED');
+      expect((result.getError() as CancelledError).cause).toBe('Request closed');
+    });
+
+    it('should not run execute when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await SlowUseCase.call(1, { signal: controller.signal });
+
+      expect(result.getType()).toBe('CANCELLED');
+    });
+
+    it('should leave calls that finish in time untouched', async () => {
+      const result = await DoubleUseCase.call(2, { timeoutMs: 1000 });
+
+      expect(result.getValue()).toBe(4);
+    });
+
+    it('should stop retrying once the call is cancelled', async () => {
+      const controller = new AbortController();
+      const execute = jest.fn(async () => {
+        controller.abort();
+        throw new Error('Connection reset');
+      });
+
+      class FlakyUseCase extends UseCase<void, void> {
+        static retryPolicy: RetryPolicy = { maxAttempts: 3, sleep: async () => undefined };
+
+        execute = execute;
+      }
+
+      const result = await FlakyUseCase.call(undefined, { signal: controller.signal });
+
+      expect(result.getType()).toBe('CANCELLED');
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip later and_then steps once the chain is cancelled', async () => {
+      const controller = new AbortController();
+      const next = jest.fn(() => Success(0));
+
+      const result = await DoubleUseCase.call(1, { signal: controller.signal })
+        .and_then(value => {
+          controller.abort();
+          return DoubleUseCase.call(value);
+        })
+        .and_then(next);
+
+      expect(result.getType()).toBe('CANCELLED');
+      expect(result.getError()).toBeInstanceOf(CancelledError);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { CancelledError, TimeoutError } from './errors';
+import type { UseCaseMiddleware } from './middleware';
+import { Failure } from './result';
+
+/**
+ * Options accepted by `call()` and `ResultAsyncWrapper` to bound an execution.
+ * Aborting `signal` ends it with a `CANCELLED` failure; exceeding `timeoutMs` ends it
+ * with a `TIMEOUT` failure.
+ */
+export type CallOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+};
+
+/**
+ * Failure types produced by timeouts and cancellation.
+ */
+export type AbortFailureType = TimeoutError['failureType'] | CancelledError['failureType'];
+
+/**
+ * Signal of one execution, aborted by the caller's signal or by the timeout.
+ * Call `dispose()` once the execution is over to clear the timer and listeners.
+ */
+export type CallSignal = {
+  signal: AbortSignal;
+  dispose: () => void;
+};
+
+/**
+ * Reads why a signal was aborted as a TimeoutError or a CancelledError.
+ * `AbortSignal.timeout()` reasons become TimeoutErrors; any other reason becomes
+ * the `cause` of a CancelledError.
+ */
+export const abortReason = (signal: AbortSignal): TimeoutError | CancelledError => {
+  const { reason } = signal;
+
+  if (reason instanceof TimeoutError || reason instanceof CancelledError) {
+    return reason;
+  }
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new TimeoutError(reason.message, { cause: reason });
+  }
+
+  return new CancelledError('Operation cancelled', { cause: reason });
+};
+
+/**
+ * Creates the signal of one execution from the caller's options.
+ */
+export const createCallSignal = (options: CallOptions = {}): CallSignal => {
+  const controller = new AbortController();
+  const { signal: callerSignal, timeoutMs } = options;
+
+  const abort = (reason: TimeoutError | CancelledError): void => {
+    if (!controller.signal.aborted) controller.abort(reason);
+  };
+  const onCallerAbort = (): void => abort(abortReason(callerSignal!));
+
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(() => abort(new TimeoutError(`Timed out after ${timeoutMs}ms`)), timeoutMs)
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: (): void => {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onCallerAbort);
+    },
+  };
+};
+
+/**
+ * Resolves with the promise, or with `onAbort(reason)` as soon as the signal is aborted,
+ * whichever comes first. The promise keeps running; the signal tells it to stop.
+ */
+export const raceAbort = <R>(
+  promise: Promise<R>,
+  signal: AbortSignal,
+  onAbort: (reason: TimeoutError | CancelledError) => R,
+): Promise<R> => {
+  if (signal.aborted) {
+    return Promise.resolve(onAbort(abortReason(signal)));
+  }
+
+  return new Promise<R>((resolve, reject) => {
+    const listener = (): void => resolve(onAbort(abortReason(signal)));
+    signal.addEventListener('abort', listener, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', listener));
+  });
+};
+
+/**
+ * Built-in middleware ending the execution with a `TIMEOUT` or `CANCELLED` failure as soon
+ * as its signal is aborted, without waiting for `execute` to notice the signal.
+ */
+export const cancellationMiddleware: UseCaseMiddleware<unknown, unknown> = (
+  input,
+  useCase,
+  next,
+  execution,
+) => {
+  if (!execution) {
+    return next();
+  }
+
+  return raceAbort(next(), execution.signal, reason =>
+    Failure(reason, reason.failureType, {}, useCase.constructor.name),
+  );
+};
@@ -0,0 +1,176 @@
+import { CircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker';
+import { getDebugLogger } from './debug';
+import { CircuitOpenError } from './errors';
+import { Failure, Result, Success } from './result';
+import { UseCase } from './use-case';
+
+let clock = 0;
+const now = (): number => clock;
+
+const failing = async (): Promise<Result<string>> =>
+  Failure(new Error('Connection refused'), 'UNEXPECTED_ERROR');
+const succeeding = async (): Promise<Result<string>> => Success('ok');
+const rejected = (error: CircuitOpenError): Result<string> => Failure(error, error.failureType);
+
+const createBreaker = (options: CircuitBreakerOptions = {}): CircuitBreaker =>
+  new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000, now, ...options });
+
+const run = async (
+  breaker: CircuitBreaker,
+  operation: () => Promise<Result<string>>,
+  times = 1,
+): Promise<Result<string>> => {
+  let result = await breaker.execute(operation, rejected);
+  for (let call = 1; call < times; call++) {
+    result = await breaker.execute(operation, rejected);
+  }
+  return result;
+};
+
+beforeEach(() => {
+  clock = 0;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive counted failures', async () => {
+    const breaker = createBreaker();
+
+    await run(breaker, failing, 2);
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should reject calls without running them while open', async () => {
+    const breaker = createBreaker();
+    const operation = jest.fn(succeeding);
+    await run(breaker, failing, 2);
+
+    clock = 400;
+    const result = await breaker.execute(operation, rejected);
+
+    expect(result.getType()).toBe('CIRCUIT_OPEN');
+    expect(result.getError()).toBeInstanceOf(CircuitOpenError);
+    expect((result.getError() as CircuitOpenError).details).toEqual({ retryAfterMs: 600 });
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should reset the consecutive count after a success', async () => {
+    const breaker = createBreaker();
+
+    await run(breaker, failing);
+    await run(breaker, succeeding);
+    await run(breaker, failing);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should open when the failure rate over the window reaches the threshold', async () => {
+    const breaker = createBreaker({
+      failureThreshold: 10,
+      failureRateThreshold: 0.5,
+      windowSize: 4,
+    });
+
+    await run(breaker, failing);
+    await run(breaker, succeeding);
+    await run(breaker, failing);
+    expect(breaker.state).toBe('closed');
+
+    await run(breaker, succeeding);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should only count the configured failure types', async () => {
+    const breaker = createBreaker({ countOn: ['DB_TIMEOUT'] });
+
+    await run(breaker, async () => Failure(new Error('Missing'), 'NOT_FOUND'), 3);
+    expect(breaker.state).toBe('closed');
+
+    await run(breaker, async () => Failure(new Error('Busy'), 'DB_TIMEOUT'), 2);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should close after a successful trial call once half-open', async () => {
+    const breaker = createBreaker();
+    await run(breaker, failing, 2);
+
+    clock = 1000;
+    expect(breaker.state).toBe('half-open');
+
+    const result = await run(breaker, succeeding);
+
+    expect(result.getValue()).toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should open again when the trial call fails', async () => {
+    const breaker = createBreaker();
+    await run(breaker, failing, 2);
+
+    clock = 1000;
+    await run(breaker, failing);
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should limit concurrent trial calls while half-open', async () => {
+    const breaker = createBreaker();
+    await run(breaker, failing, 2);
+    clock = 1000;
+
+    let finishTrial: (result: Result<string>) => void = () => undefined;
+    const trial = breaker.execute(
+      () => new Promise<Result<string>>(resolve => (finishTrial = resolve)),
+      rejected,
+    );
+    const concurrent = await breaker.execute(succeeding, rejected);
+    finishTrial(Success('ok'));
+
+    expect(concurrent.getType()).toBe('CIRCUIT_OPEN');
+    expect((await trial).isSuccess()).toBe(true);
+  });
+
+  it('should log state transitions through the debug logger', async () => {
+    const logCircuitBreaker = jest
+      .spyOn(getDebugLogger(), 'logCircuitBreaker')
+      .mockImplementation(() => undefined);
+    const breaker = createBreaker();
+
+    await breaker.execute(failing, rejected, 'rates');
+    await breaker.execute(failing, rejected, 'rates');
+    clock = 1000;
+    await breaker.execute(succeeding, rejected, 'rates');
+
+    expect(logCircuitBreaker.mock.calls).toEqual([
+      ['rates', 'closed', 'open'],
+      ['rates', 'open', 'half-open'],
+      ['rates', 'half-open', 'closed'],
+    ]);
+  });
+
+  describe('use case circuit breaker', () => {
+    it('should return CIRCUIT_OPEN failures without calling execute while open', async () => {
+      const execute = jest.fn(async () => {
+        throw new Error('Service unavailable');
+      });
+
+      class GetRatesUseCase extends UseCase<string, number> {
+        static circuitBreaker = createBreaker();
+
+        execute = execute;
+      }
+
+      await GetRatesUseCase.call('EUR');
+      await GetRatesUseCase.call('EUR');
+      const result = await GetRatesUseCase.call('EUR');
+
+      expect(result.getType()).toBe('CIRCUIT_OPEN');
+      expect(result.useCaseClass).toBe('GetRatesUseCase');
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { getDebugLogger } from './debug';
+import { CircuitOpenError } from './errors';
+import type { UseCaseMiddleware } from './middleware';
+import { Failure, type Result } from './result';
+
+/**
+ * - `closed`: calls run and their outcomes are counted
+ * - `open`: calls are rejected with `CIRCUIT_OPEN` until `resetTimeoutMs` has passed
+ * - `half-open`: a few trial calls run; a success closes the circuit, a failure opens it again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A failure seen by the breaker, as passed to `countOn`.
+ */
+export type CircuitFailure = {
+  failureType: string;
+  error: Error;
+};
+
+/**
+ * Circuit breaker configuration.
+ *
+ * - `failureThreshold`: consecutive counted failures that open the circuit (5 by default)
+ * - `failureRateThreshold`: fraction of counted failures, from 0 to 1, among the last
+ *   `windowSize` calls (10 by default) that opens the circuit. Only checked once the window
+ *   holds `minimumCalls` calls (`windowSize` by default)
+ * - `resetTimeoutMs`: how long the circuit stays open before allowing trial calls (30s by default)
+ * - `halfOpenMaxCalls`: trial calls allowed at once while half-open (1 by default)
+ * - `countOn`: failure types counted against the dependency, or a predicate over the failure.
+ *   By default only unexpected errors are counted (`UNEXPECTED_ERROR` for use cases, the
+ *   default failure type for wrappers); other failures count as successful calls
+ * - `now`: replaces the clock, for instance in tests
+ */
+export type CircuitBreakerOptions = {
+  failureThreshold?: number;
+  failureRateThreshold?: number;
+  windowSize?: number;
+  minimumCalls?: number;
+  resetTimeoutMs?: number;
+  halfOpenMaxCalls?: number;
+  countOn?: readonly string[] | ((failure: CircuitFailure) => boolean);
+  now?: () => number;
+};
+
+/**
+ * Stops calling a degraded dependency. Share one instance between every call to the same
+ * dependency, for instance as the `circuitBreaker` of a use case class or in the options of
+ * ResultAsyncWrapper.
+ *
+ * @example
+ * const ratesBreaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10000 });
+ *
+ * class GetRatesUseCase extends UseCase<string, Rates> {
+ *   static circuitBreaker = ratesBreaker;
+ * }
+ */
+export class CircuitBreaker {
+  private currentState: CircuitState = 'closed';
+  private outcomes: boolean[] = [];
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialCalls = 0;
+
+  constructor(private readonly options: CircuitBreakerOptions = {}) {}
+
+  /**
+   * Current state. An open circuit whose reset timeout has passed reports `half-open`.
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && this.retryAfterMs() === 0) {
+      return 'half-open';
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Runs the operation unless the circuit is open, and counts its outcome.
+   *
+   * @param operation Operation guarded by the breaker
+   * @param onOpen Builds the Result returned instead of running the operation
+   * @param name Name used in debug logs
+   * @param unexpectedFailureType Failure type counted when the options have no `countOn`
+   * @returns The Result of the operation, or the one built by `onOpen`
+   */
+  async execute<R extends Result<any, any, any>>(
+    operation: () => Promise<R>,
+    onOpen: (error: CircuitOpenError) => R,
+    name = 'anonymous',
+    unexpectedFailureType = 'UNEXPECTED_ERROR',
+  ): Promise<R> {
+    const { halfOpenMaxCalls = 1 } = this.options;
+
+    if (this.currentState === 'open' && this.retryAfterMs() === 0) {
+      this.transition('half-open', name);
+    }
+
+    if (
+      this.currentState === 'open' ||
+      (this.currentState === 'half-open' && this.trialCalls >= halfOpenMaxCalls)
+    ) {
+      const retryAfterMs = this.retryAfterMs();
+      return onOpen(
+        new CircuitOpenError(`Circuit open for ${name}`, { details: { retryAfterMs } }),
+      );
+    }
+
+    const trial = this.currentState === 'half-open';
+    if (trial) this.trialCalls += 1;
+
+    let failed = true;
+    try {
+      const result = await operation();
+      failed = result.isFailure() && this.isCounted(result, unexpectedFailureType);
+      return result;
+    } finally {
+      this.record(failed, trial, name);
+    }
+  }
+
+  /**
+   * Closes the circuit and forgets every counted call.
+   */
+  reset(): void {
+    this.currentState = 'closed';
+    this.outcomes = [];
+    this.consecutiveFailures = 0;
+    this.trialCalls = 0;
+  }
+
+  private isCounted(result: Result<any, any, any>, unexpectedFailureType: string): boolean {
+    const { countOn = [unexpectedFailureType] } = this.options;
+    const failure = { failureType: result.getType(), error: result.getError() };
+    return typeof countOn === 'function' ? countOn(failure) : countOn.includes(failure.failureType);
+  }
+
+  private record(failed: boolean, trial: boolean, name: string): void {
+    if (trial) {
+      if (this.currentState === 'half-open') {
+        this.transition(failed ? 'open' : 'closed', name);
+      }
+      return;
+    }
+
+    // Calls started before the circuit opened do not count any more
+    if (this.currentState !== 'closed') return;
+
+    const { failureThreshold = 5, failureRateThreshold, windowSize = 10 } = this.options;
+    const { minimumCalls = windowSize } = this.options;
+
+    this.consecutiveFailures = failed ? this.consecutiveFailures + 1 : 0;
+    this.outcomes = [...this.outcomes, failed].slice(-windowSize);
+
+    const failureRate = this.outcomes.filter(Boolean).length / this.outcomes.length;
+    const rateExceeded =
+      failureRateThreshold !== undefined &&
+      this.outcomes.length >= minimumCalls &&
+      failureRate >= failureRateThreshold;
+
+    if (this.consecutiveFailures >= failureThreshold || rateExceeded) {
+      this.transition('open', name);
+    }
+  }
+
+  private transition(to: CircuitState, name: string): void {
+    const from = this.currentState;
+
+    this.currentState = to;
+    this.trialCalls = 0;
+    if (to === 'open') {
+      this.openedAt = this.now();
+    } else if (to === 'closed') {
+      this.reset();
+    }
+
+    getDebugLogger().logCircuitBreaker(name, from, to);
+  }
+
+  private retryAfterMs(): number {
+    const { resetTimeoutMs = 30000 } = this.options;
+    return Math.max(0, this.openedAt + resetTimeoutMs - this.now());
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
+
+/**
+ * Built-in middleware running `execute` through the class's `circuitBreaker`. While the
+ * circuit is open it returns a `CIRCUIT_OPEN` failure without calling `execute`.
+ */
+export const circuitBreakerMiddleware: UseCaseMiddleware<unknown, unknown> = (
+  input,
+  useCase,
+  next,
+) => {
+  const { circuitBreaker } = useCase.constructor as { circuitBreaker?: CircuitBreaker };
+
+  if (!circuitBreaker) {
+    return next();
+  }
+
+  const useCaseClass = useCase.constructor.name;
+  return circuitBreaker.execute(
+    () => next(),
+    error => Failure(error, error.failureType, {}, useCaseClass),
+    useCaseClass,
+  );
+};
@@ -0,0 +1,278 @@
+import type { UseCaseExecution } from './middleware';
+import { Failure, Result, ResultAggregateError, Success } from './result';
+import { UseCase } from './use-case';
+
+type User = { id: string; name: string };
+
+class FindUserUseCase extends UseCase<string, User> {
+  async execute(id: string): Promise<Result<User, Error, 'NOT_FOUND'>> {
+    if (id === 'missing') return Failure(new Error('User not found'), 'NOT_FOUND');
+    return Success({ id, name: 'Ana' });
+  }
+}
+
+class GreetUseCase extends UseCase<string, string> {
+  async execute(name: string): Promise<Result<string>> {
+    return Success(`Hello, ${name}`);
+  }
+}
+
+class ShoutUseCase extends UseCase<string, string> {
+  async execute(text: string): Promise<Result<string>> {
+    return Success(text.toUpperCase());
+  }
+}
+
+let running = 0;
+let maxRunning = 0;
+
+const track = async <T>(value: T): Promise<T> => {
+  running += 1;
+  maxRunning = Math.max(maxRunning, running);
+  await new Promise(resolve => setImmediate(resolve));
+  running -= 1;
+  return value;
+};
+
+class GetPermissionsUseCase extends UseCase<string, string[]> {
+  async execute(id: string): Promise<Result<string[], Error, 'FORBIDDEN'>> {
+    if (id === 'banned') return Failure(new Error('Banned user'), 'FORBIDDEN');
+    return Success(await track(['read']));
+  }
+}
+
+class GetPreferencesUseCase extends UseCase<string, { theme: string }> {
+  async execute(id: string, execution?: UseCaseExecution): Promise<Result<{ theme: string }>> {
+    const theme = await track('dark');
+    if (execution?.signal.aborted) return Failure(new Error('Stopped'), 'STOPPED');
+    if (id === 'banned' || id === 'missing') return Failure(new Error('No preferences'), 'NONE');
+    return Success({ theme });
+  }
+}
+
+beforeEach(() => {
+  running = 0;
+  maxRunning = 0;
+});
+
+describe('UseCase.pipe', () => {
+  it('should call each step with the previous output', async () => {
+    const GreetUser = UseCase.pipe(FindUserUseCase, user => user.name, GreetUseCase);
+
+    const result = await GreetUser.call('u1');
+
+    expect(result.getValue()).toBe('Hello, Ana');
+  });
+
+  it('should merge the context of every step', async () => {
+    class GreetUserUseCase extends UseCase.pipe(FindUserUseCase, user => user.name, GreetUseCase) {}
+
+    const result = await GreetUserUseCase.call('u1');
+
+    expect(Object.keys(result.context)).toEqual([
+      'FindUserUseCase',
+      'GreetUseCase',
+      'GreetUserUseCase',
+    ]);
+    expect(result.useCaseClass).toBe('GreetUserUseCase');
+  });
+
+  it('should stop at the first failure', async () => {
+    const greet = jest.spyOn(GreetUseCase.prototype, 'execute');
+    const GreetUser = UseCase.pipe(FindUserUseCase, user => user.name, GreetUseCase);
+
+    const result = await GreetUser.call('missing');
+
+    expect(result.getType()).toBe('NOT_FOUND');
+    expect(result.getError().message).toBe('User not found');
+    expect(greet).not.toHaveBeenCalled();
+    greet.mockRestore();
+  });
+
+  it('should support async mappers and composites as steps', async () => {
+    const GreetUser = UseCase.pipe(FindUserUseCase, async user => user.name, GreetUseCase);
+    const ShoutGreeting = UseCase.pipe(GreetUser, ShoutUseCase);
+
+    const result = await ShoutGreeting.call('u1');
+
+    expect(result.getValue()).toBe('HELLO, ANA');
+    expect(ShoutGreeting.name).toBe('pipe(pipe(FindUserUseCase, map, GreetUseCase), ShoutUseCase)');
+  });
+
+  it('should turn a throwing mapper into an UNEXPECTED_ERROR failure', async () => {
+    const Broken = UseCase.pipe(FindUserUseCase, (): string => {
+      throw new Error('Bad mapping');
+    });
+
+    const result = await Broken.call('u1');
+
+    expect(result.getType()).toBe('UNEXPECTED_ERROR');
+    expect(result.getError().message).toBe('Bad mapping');
+  });
+
+  it('should offer the instance call and class statics', async () => {
+    class GreetUserUseCase extends UseCase.pipe(FindUserUseCase, user => user.name, GreetUseCase) {
+      static retryPolicy = { maxAttempts: 1 };
+    }
+
+    const result = await new GreetUserUseCase().call('u1');
+
+    expect(result.getValue()).toBe('Hello, Ana');
+  });
+
+  it('should cancel the running step with the composite signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await UseCase.pipe(FindUserUseCase, user => user.name, GreetUseCase).call('u1', {
+      signal: controller.signal,
+    });
+
+    expect(result.getType()).toBe('CANCELLED');
+  });
+
+  it('should check that each step accepts the previous output', () => {
+    // @ts-expect-error GreetUseCase takes a string, not a User
+    UseCase.pipe(FindUserUseCase, GreetUseCase);
+    // @ts-expect-error the mapper takes a User
+    UseCase.pipe(FindUserUseCase, (user: number) => user);
+  });
+});
+
+describe('UseCase.parallel', () => {
+  const children = {
+    user: FindUserUseCase,
+    perms: GetPermissionsUseCase,
+    prefs: GetPreferencesUseCase,
+  };
+
+  it('should return the output of every child by key', async () => {
+    const LoadDashboard = UseCase.parallel(children);
+
+    const result = await LoadDashboard.call('u1');
+    const dashboard: { user: User; perms: string[]; prefs: { theme: string } } = result.getValue();
+
+    expect(dashboard).toEqual({
+      user: { id: 'u1', name: 'Ana' },
+      perms: ['read'],
+      prefs: { theme: 'dark' },
+    });
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should merge the context of every child', async () => {
+    class LoadDashboardUseCase extends UseCase.parallel(children) {}
+
+    const result = await LoadDashboardUseCase.call('u1');
+
+    expect(Object.keys(result.context)).toEqual([
+      'FindUserUseCase',
+      'GetPermissionsUseCase',
+      'GetPreferencesUseCase',
+      'LoadDashboardUseCase',
+    ]);
+  });
+
+  it('should run at most `concurrency` children at once', async () => {
+    const result = await UseCase.parallel(children, { concurrency: 1 }).call('u1');
+
+    expect(result.isSuccess()).toBe(true);
+    expect(maxRunning).toBe(1);
+  });
+
+  it('should fail with the first failure by default', async () => {
+    const result = await UseCase.parallel(children).call('missing');
+
+    expect(result.getType()).toBe('NOT_FOUND');
+    expect(result.getError().message).toBe('User not found');
+    expect(result.useCaseClass).toBe(
+      'parallel(FindUserUseCase, GetPermissionsUseCase, GetPreferencesUseCase)',
+    );
+  });
+
+  it('should not start queued children after a failure', async () => {
+    const permissions = jest.spyOn(GetPermissionsUseCase.prototype, 'execute');
+
+    await UseCase.parallel(children, { concurrency: 1 }).call('missing');
+
+    expect(permissions).not.toHaveBeenCalled();
+    permissions.mockRestore();
+  });
+
+  it('should turn a rejected child call into an UNEXPECTED_ERROR failure', async () => {
+    const result = await UseCase.parallel({
+      user: FindUserUseCase,
+      broken: UseCase as unknown as typeof FindUserUseCase,
+    }).call('u1');
+
+    expect(result.getType()).toBe('UNEXPECTED_ERROR');
+    expect(result.getError().message).toBe('Cannot call static method on abstract UseCase class');
+  });
+
+  it('should collect every failure when failFast is false', async () => {
+    const result = await UseCase.parallel(children, { failFast: false }).call('banned');
+    const error = result.getError() as ResultAggregateError;
+
+    expect(result.getType()).toBe('FORBIDDEN');
+    expect(error).toBeInstanceOf(ResultAggregateError);
+    expect(error.failures.map(failure => [failure.key, failure.failureType])).toEqual([
+      ['perms', 'FORBIDDEN'],
+      ['prefs', 'NONE'],
+    ]);
+  });
+});
+
+describe('UseCase.route', () => {
+  type Product = { id: string; price: number };
+
+  class FindProductInCacheUseCase extends UseCase<string, Product> {
+    async execute(id: string): Promise<Result<Product, Error, 'NOT_FOUND' | 'TIMEOUT'>> {
+      if (id === 'slow') return Failure(new Error('Cache timeout'), 'TIMEOUT');
+      if (id === 'bad') return Failure(new Error('Corrupted'), 'CORRUPTED' as 'TIMEOUT');
+      if (id !== 'cached') return Failure(new Error('Not cached'), 'NOT_FOUND');
+      return Success({ id, price: 1 });
+    }
+  }
+
+  class FindProductInDatabaseUseCase extends UseCase<string, Product> {
+    async execute(id: string): Promise<Result<Product>> {
+      return Success({ id, price: 2 });
+    }
+  }
+
+  class FindProductUseCase extends UseCase.route(FindProductInCacheUseCase, {
+    NOT_FOUND: FindProductInDatabaseUseCase,
+    TIMEOUT: (error, id) => ({ id, price: 0, stale: error.message }),
+  }) {}
+
+  it('should return the primary result when it succeeds', async () => {
+    const result = await FindProductUseCase.call('cached');
+
+    expect(result.getValue()).toEqual({ id: 'cached', price: 1 });
+    expect(result.context.routes).toBeUndefined();
+  });
+
+  it('should call the branch use case with the same input', async () => {
+    const result = await FindProductUseCase.call('p1');
+
+    expect(result.getValue()).toEqual({ id: 'p1', price: 2 });
+    expect(result.context.routes).toEqual([
+      { failureType: 'NOT_FOUND', branch: 'FindProductInDatabaseUseCase' },
+    ]);
+    expect(result.context).toHaveProperty('FindProductInDatabaseUseCase');
+  });
+
+  it('should recover with the branch function', async () => {
+    const result = await FindProductUseCase.call('slow');
+
+    expect(result.getValue()).toEqual({ id: 'slow', price: 0, stale: 'Cache timeout' });
+    expect(result.context.routes).toEqual([{ failureType: 'TIMEOUT', branch: 'recovery' }]);
+  });
+
+  it('should pass unmatched failures through', async () => {
+    const result = await FindProductUseCase.call('bad');
+
+    expect(result.getType()).toBe('CORRUPTED');
+    expect(result.getError().message).toBe('Corrupted');
+  });
+});
@@ -0,0 +1,361 @@
+import type { CallOptions } from './cancellation';
+import type { UseCaseExecution } from './middleware';
+import {
+  Failure,
+  Success,
+  type Result,
+  ResultAggregateError,
+  type ResultPromise,
+  type RoutedError,
+  type RoutedFailureType,
+  type RoutedValue,
+} from './result';
+import type { BaseUseCase, CallFailureType, UseCase, UseCaseClass } from './use-case';
+
+/**
+ * Step of UseCase.pipe(): a use case class, or a function mapping the previous output to
+ * the next input. `I` is the input the step must accept.
+ */
+export type PipeStep<I = any> = UseCaseClass<I> | ((input: I) => unknown);
+
+/**
+ * Input taken by a step.
+ */
+export type StepInput<S> = S extends new (...args: any[]) => {
+  execute(input: infer I, ...args: any[]): any;
+}
+  ? I
+  : S extends (input: infer I) => any
+    ? I
+    : never;
+
+/**
+ * Output of a step; mappers returning a promise give its resolved value.
+ */
+export type StepOutput<S> =
+  S extends UseCaseClass<any, infer O> ? O : S extends (input: any) => infer O ? Awaited<O> : never;
+
+/**
+ * Errors a step fails with, including the errors thrown while it runs.
+ */
+export type StepError<S> = S extends UseCaseClass<any, any, infer E> ? E | Error : never;
+
+/**
+ * Failure types a step fails with, including those added by its static `call`.
+ */
+export type StepFailureType<S> =
+  S extends UseCaseClass<any, any, any, infer F> ? F | CallFailureType : never;
+
+/**
+ * Use case class built by the composition helpers (see UseCase.pipe()). Its static `call`
+ * is typed after the composed steps, and subclassing it gives the composite a stable name:
+ *
+ * @example
+ * class CheckoutUseCase extends UseCase.pipe(ReserveStockUseCase, ChargeCardUseCase) {}
+ */
+export type ComposedUseCaseClass<I, O, E extends Error, F extends string> = Omit<
+  typeof UseCase,
+  'prototype' | 'call'
+> & {
+  new (): BaseUseCase<I, O, E, F>;
+  call(params?: I, options?: CallOptions): ResultPromise<O, E | Error, F | CallFailureType>;
+};
+
+/**
+ * Composite built from the steps `S`: it takes the first step's input and returns the last
+ * step's output.
+ */
+export type Piped<S extends readonly PipeStep[]> = S extends readonly [infer First, ...any[]]
+  ? S extends readonly [...any[], infer Last]
+    ? ComposedUseCaseClass<
+        StepInput<First>,
+        StepOutput<Last>,
+        StepError<S[number]>,
+        StepFailureType<S[number]>
+      >
+    : never
+  : never;
+
+/**
+ * Marks the classes built by the composition helpers (and their subclasses): their
+ * successful Results keep the contexts of their steps next to their own Context.
+ */
+export const COMPOSITE_CLASS = Symbol('compositeClass');
+
+const isUseCaseClass = (
+  step: UseCaseClass | ((...args: any[]) => unknown),
+): step is UseCaseClass => {
+  return typeof step.prototype?.execute === 'function';
+};
+
+/**
+ * Name given to a composite: its steps' names, mappers showing as `map`.
+ */
+export const compositeName = (kind: string, steps: PipeStep[]): string => {
+  const names = steps.map(step => (isUseCaseClass(step) ? step.name : 'map'));
+  return `${kind}(${names.join(', ')})`;
+};
+
+const callStep = (
+  useCase: UseCaseClass,
+  input: unknown,
+  execution: UseCaseExecution | undefined,
+): PromiseLike<Result<any, any, any>> => {
+  return execution ? useCase.call(input, { signal: execution.signal }) : useCase.call(input);
+};
+
+/**
+ * Runs the steps of a pipe: each use case is called with the previous output (forwarding
+ * the composite's signal) and each mapper transforms it. Stops at the first failure; the
+ * Result carries the contexts of every step that ran.
+ */
+export const runPipe = async (
+  steps: PipeStep[],
+  input: unknown,
+  execution: UseCaseExecution | undefined,
+): Promise<Result<any, any, any>> => {
+  let context: Record<string, any> = {};
+  let value = input;
+
+  for (const step of steps) {
+    if (!isUseCaseClass(step)) {
+      value = await step(value);
+      continue;
+    }
+
+    const result = await callStep(step, value, execution);
+    context = { ...context, ...result.context };
+
+    if (result.isFailure()) {
+      return Failure(result.getError(), result.getType(), context, result.useCaseClass);
+    }
+
+    value = result.getValue();
+  }
+
+  return Success(value, context);
+};
+
+/**
+ * Use cases run by UseCase.parallel(), by the key their output is returned under.
+ */
+export type ParallelChildren = { readonly [key: string]: UseCaseClass };
+
+/**
+ * How UseCase.parallel() runs its children.
+ *
+ * - `concurrency`: children running at once (all of them by default)
+ * - `failFast`: `true` (default) fails with the first failure and cancels the other children;
+ *   `false` waits for every child and fails with a ResultAggregateError listing all failures
+ */
+export type ParallelOptions = {
+  concurrency?: number;
+  failFast?: boolean;
+};
+
+type UnionToIntersection<U> = (U extends any ? (value: U) => void : never) extends (
+  value: infer I,
+) => void
+  ? I
+  : never;
+
+/**
+ * Composite running the children `C` with the same input (accepted by every child) and
+ * returning their outputs by key. Failures carry the children's error, or a
+ * ResultAggregateError of them when `FailFast` is false.
+ */
+export type Parallel<
+  C extends ParallelChildren,
+  FailFast extends boolean = true,
+> = ComposedUseCaseClass<
+  UnionToIntersection<StepInput<C[keyof C]>>,
+  { -readonly [K in keyof C]: StepOutput<C[K]> },
+  FailFast extends true ? StepError<C[keyof C]> : ResultAggregateError<StepError<C[keyof C]>>,
+  StepFailureType<C[keyof C]>
+>;
+
+/**
+ * Runs the children of a parallel composite with the same input, at most `concurrency` at a
+ * time. The children get a signal aborted when the composite's signal is, or, failing fast,
+ * once a child fails. The Result carries the contexts of every child that ended.
+ */
+export const runParallel = (
+  children: ParallelChildren,
+  options: ParallelOptions,
+  input: unknown,
+  execution: UseCaseExecution | undefined,
+): Promise<Result<any, any, any>> => {
+  const { failFast = true } = options;
+  const keys = Object.keys(children);
+  const concurrency = Math.max(1, options.concurrency ?? keys.length);
+  const controller = new AbortController();
+  const settled: [string, Result<any, any, any>][] = [];
+  const parentSignal = execution?.signal;
+  const abort = (): void => controller.abort(parentSignal?.reason);
+
+  if (parentSignal?.aborted) {
+    abort();
+  } else {
+    parentSignal?.addEventListener('abort', abort, { once: true });
+  }
+
+  return new Promise<Result<any, any, any>>(resolve => {
+    let next = 0;
+    let pending = keys.length;
+
+    const finish = (result: Result<any, any, any>): void => {
+      parentSignal?.removeEventListener('abort', abort);
+      resolve(result);
+    };
+
+    const launch = (): void => {
+      const key = keys[next++];
+      if (key === undefined) return;
+
+      settleChild(children[key], input, controller.signal).then(result => {
+        if (pending === 0) return;
+
+        settled.push([key, result]);
+        pending -= 1;
+
+        if (result.isFailure() && failFast) {
+          pending = 0;
+          controller.abort();
+          finish(
+            Failure(
+              result.getError(),
+              result.getType(),
+              mergeContexts(settled),
+              result.useCaseClass,
+            ),
+          );
+          return;
+        }
+
+        if (pending === 0) {
+          finish(combineChildren(keys, settled));
+          return;
+        }
+
+        launch();
+      });
+    };
+
+    if (pending === 0) {
+      finish(Success({}));
+      return;
+    }
+
+    for (let i = 0; i < concurrency; i++) launch();
+  });
+};
+
+/**
+ * Calls a child of a parallel composite. A rejected call becomes an `UNEXPECTED_ERROR`
+ * failure, so the composite always settles.
+ */
+const settleChild = async (
+  child: UseCaseClass,
+  input: unknown,
+  signal: AbortSignal,
+): Promise<Result<any, any, any>> => {
+  try {
+    return await child.call(input, { signal });
+  } catch (error) {
+    return Failure(
+      error instanceof Error ? error : new Error(String(error)),
+      'UNEXPECTED_ERROR',
+      { rawError: error },
+      child.name,
+    );
+  }
+};
+
+const mergeContexts = (settled: [string, Result<any, any, any>][]): Record<string, any> => {
+  return settled.reduce((context, [, result]) => ({ ...context, ...result.context }), {});
+};
+
+const combineChildren = (
+  keys: string[],
+  settled: [string, Result<any, any, any>][],
+): Result<any, any, any> => {
+  const ordered = keys.map(key => settled.find(([settledKey]) => settledKey === key)!);
+  const context = mergeContexts(ordered);
+  const failed = ordered.filter(([, result]) => result.isFailure());
+
+  if (failed.length > 0) {
+    const [, first] = failed[0];
+
+    return Failure(
+      new ResultAggregateError(
+        failed.map(([key, result]) => ({
+          key,
+          failureType: result.getType(),
+          error: result.getError(),
+        })),
+      ),
+      first.getType(),
+      context,
+      first.useCaseClass,
+    );
+  }
+
+  return Success(
+    Object.fromEntries(ordered.map(([key, result]) => [key, result.getValue()])),
+    context,
+  );
+};
+
+/**
+ * Branches of UseCase.route(), keyed by the failure types of the primary use case `P`: a use
+ * case class called with the same input, or a function of the error and the input returning
+ * a Result or a plain recovery value.
+ */
+export type UseCaseRoutes<P extends UseCaseClass> = {
+  [K in StepFailureType<P>]?:
+    | UseCaseClass<StepInput<P>>
+    | ((error: StepError<P>, input: StepInput<P>) => unknown);
+};
+
+type RouteBranchFunction = (error: Error, input: unknown) => unknown;
+
+type BranchValue<B> = B extends UseCaseClass<any, infer O> ? O : RoutedValue<B>;
+
+type BranchError<B> = B extends UseCaseClass<any, any, infer E> ? E : RoutedError<B>;
+
+type BranchFailureType<B> = B extends UseCaseClass ? StepFailureType<B> : RoutedFailureType<B>;
+
+/**
+ * Composite calling `P` and routing its failures through the branches `R`.
+ */
+export type Routed<P extends UseCaseClass, R extends UseCaseRoutes<P>> = ComposedUseCaseClass<
+  StepInput<P>,
+  StepOutput<P> | BranchValue<R[keyof R]>,
+  StepError<P> | BranchError<R[keyof R]>,
+  Exclude<StepFailureType<P>, keyof R> | BranchFailureType<R[keyof R]>
+>;
+
+/**
+ * Runs a routing composite: calls the primary use case, then hands a failure of a routed
+ * type to its branch. See Result.route().
+ */
+export const runRoute = async (
+  primary: UseCaseClass,
+  routes: UseCaseRoutes<UseCaseClass>,
+  input: unknown,
+  execution: UseCaseExecution | undefined,
+): Promise<Result<any, any, any>> => {
+  const result = await callStep(primary, input, execution);
+  const handlers = Object.fromEntries(
+    Object.entries(routes as Record<string, UseCaseClass | RouteBranchFunction>).map(
+      ([failureType, branch]) => [
+        failureType,
+        isUseCaseClass(branch)
+          ? (): PromiseLike<Result<any, any, any>> => callStep(branch, input, execution)
+          : (error: Error): unknown => branch(error, input),
+      ],
+    ),
+  );
+
+  return result.route(handlers);
+};
@@ -0,0 +1,235 @@
+import {
+  Container,
+  getUseCaseResolver,
+  resetUseCaseResolver,
+  setUseCaseResolver,
+} from './container';
+import { DependencyResolutionError } from './errors';
+import { Result, Success } from './result';
+import { UseCase } from './use-case';
+
+class Database {
+  readonly id = Math.random();
+}
+
+class UserRepository {
+  constructor(readonly database: Database) {}
+}
+
+class AuditLog {
+  constructor(readonly database: Database) {}
+}
+
+class CreateUserUseCase extends UseCase<string, string> {
+  constructor(
+    readonly users: UserRepository,
+    readonly audit: AuditLog,
+  ) {
+    super();
+  }
+
+  async execute(name: string): Promise<Result<string>> {
+    return Success(name);
+  }
+}
+
+const createContainer = (databaseScope: 'singleton' | 'transient' | 'resolution'): Container =>
+  new Container()
+    .register(Database, () => new Database(), databaseScope)
+    .register(UserRepository, c => new UserRepository(c.resolve(Database)))
+    .register(AuditLog, c => new AuditLog(c.resolve(Database)))
+    .register(
+      CreateUserUseCase,
+      c => new CreateUserUseCase(c.resolve(UserRepository), c.resolve(AuditLog)),
+    );
+
+afterEach(() => {
+  resetUseCaseResolver();
+});
+
+describe('Container', () => {
+  it('should build dependencies through their factories', () => {
+    const useCase = createContainer('transient').resolve(CreateUserUseCase);
+
+    expect(useCase).toBeInstanceOf(CreateUserUseCase);
+    expect(useCase.users.database).toBeInstanceOf(Database);
+  });
+
+  it('should share singletons across resolutions', () => {
+    const container = createContainer('singleton');
+
+    const first = container.resolve(CreateUserUseCase);
+    const second = container.resolve(CreateUserUseCase);
+
+    expect(first).not.toBe(second);
+    expect(first.users.database).toBe(second.audit.database);
+  });
+
+  it('should build transient dependencies every time', () => {
+    const useCase = createContainer('transient').resolve(CreateUserUseCase);
+
+    expect(useCase.users.database).not.toBe(useCase.audit.database);
+  });
+
+  it('should share resolution-scoped dependencies within one resolution only', () => {
+    const container = createContainer('resolution');
+
+    const first = container.resolve(CreateUserUseCase);
+    const second = container.resolve(CreateUserUseCase);
+
+    expect(first.users.database).toBe(first.audit.database);
+    expect(first.users.database).not.toBe(second.users.database);
+  });
+
+  it('should resolve string and symbol tokens', () => {
+    const CLOCK = Symbol('clock');
+    const container = new Container()
+      .registerValue('config', { region: 'eu' })
+      .registerValue(CLOCK, () => 42);
+
+    expect(container.resolve<{ region: string }>('config').region).toBe('eu');
+    expect(container.resolve<() => number>(CLOCK)()).toBe(42);
+    expect(container.has('config')).toBe(true);
+  });
+
+  it('should fail for unregistered tokens', () => {
+    const container = new Container();
+
+    expect(() => container.resolve(Database)).toThrow('No registration found for Database');
+    expect(() => container.resolve(UserRepository)).toThrow(DependencyResolutionError);
+    expect(() => container.resolve('mailer')).toThrow('No registration found for mailer');
+  });
+
+  it('should wrap errors thrown by factories', () => {
+    const cause = new Error('Connection refused');
+    const container = createContainer('singleton').register(Database, () => {
+      throw cause;
+    });
+
+    try {
+      container.resolve(CreateUserUseCase);
+      fail('Expected resolution to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(DependencyResolutionError);
+      expect((error as DependencyResolutionError).message).toBe(
+        'Could not resolve Database: Connection refused',
+      );
+      expect((error as DependencyResolutionError).cause).toBe(cause);
+    }
+  });
+
+  it('should detect circular dependencies', () => {
+    const container = new Container()
+      .register('a', c => c.resolve('b'))
+      .register('b', c => c.resolve('a'));
+
+    expect(() => container.resolve('a')).toThrow('Circular dependency: a -> b -> a');
+  });
+});
+
+describe('UseCase resolver hook', () => {
+  it('should build use cases with the constructor by default', async () => {
+    class PingUseCase extends UseCase<void, string> {
+      async execute(): Promise<Result<string>> {
+        return Success('pong');
+      }
+    }
+
+    expect((await PingUseCase.call()).getValue()).toBe('pong');
+  });
+
+  it('should obtain instances from the registered container', async () => {
+    setUseCaseResolver(createContainer('singleton'));
+
+    const result = await CreateUserUseCase.call('Ana');
+
+    expect(result.getValue()).toBe('Ana');
+    expect(result.useCaseClass).toBe('CreateUserUseCase');
+  });
+
+  it('should resolve use cases called from execute in their own resolution scope', async () => {
+    class AuditUseCase extends UseCase<void, Database> {
+      constructor(readonly database: Database) {
+        super();
+      }
+
+      async execute(): Promise<Result<Database>> {
+        return Success(this.database);
+      }
+    }
+
+    class SignUpUseCase extends UseCase<void, Database[]> {
+      constructor(readonly database: Database) {
+        super();
+      }
+
+      async execute(): Promise<Result<Database[]>> {
+        const audit = await AuditUseCase.call();
+        return Success([this.database, audit.getValue()]);
+      }
+    }
+
+    setUseCaseResolver(
+      new Container()
+        .register(Database, () => new Database(), 'resolution')
+        .register(AuditUseCase, c => new AuditUseCase(c.resolve(Database)))
+        .register(SignUpUseCase, c => new SignUpUseCase(c.resolve(Database))),
+    );
+
+    const [outer, nested] = (await SignUpUseCase.call()).getValue();
+
+    expect(outer).not.toBe(nested);
+  });
+
+  it('should accept asynchronous resolvers', async () => {
+    const container = createContainer('singleton');
+    setUseCaseResolver({ resolve: async useCaseClass => container.resolve(useCaseClass) });
+
+    expect((await CreateUserUseCase.call('Ana')).isSuccess()).toBe(true);
+  });
+
+  it('should return a DEPENDENCY_RESOLUTION_ERROR failure when resolution fails', async () => {
+    setUseCaseResolver(new Container());
+
+    const result = await CreateUserUseCase.call('Ana');
+
+    expect(result.getType()).toBe('DEPENDENCY_RESOLUTION_ERROR');
+    expect(result.getError()).toBeInstanceOf(DependencyResolutionError);
+    expect(result.getError().message).toBe('No registration found for CreateUserUseCase');
+    expect(result.useCaseClass).toBe('CreateUserUseCase');
+  });
+
+  it('should not build unregistered subclasses whose constructor is inherited', async () => {
+    class CreateAdminUseCase extends CreateUserUseCase {}
+    setUseCaseResolver(createContainer('singleton'));
+
+    const result = await CreateAdminUseCase.call('Ana');
+
+    expect(result.getType()).toBe('DEPENDENCY_RESOLUTION_ERROR');
+    expect(result.getError().message).toBe('No registration found for CreateAdminUseCase');
+  });
+
+  it('should report errors of custom resolvers as resolution failures', async () => {
+    setUseCaseResolver({
+      resolve: () => {
+        throw new Error('Module not loaded');
+      },
+    });
+
+    const result = await CreateUserUseCase.call('Ana');
+
+    expect(result.getType()).toBe('DEPENDENCY_RESOLUTION_ERROR');
+    expect(result.getError().message).toBe(
+      'Could not resolve CreateUserUseCase: Module not loaded',
+    );
+  });
+
+  it('should restore the default resolver', () => {
+    const container = new Container();
+    setUseCaseResolver(container);
+
+    resetUseCaseResolver();
+
+    expect(getUseCaseResolver()).not.toBe(container);
+  });
+});
@@ -0,0 +1,195 @@
+import { DependencyResolutionError } from './errors';
+
+/**
+ * Identifies a dependency: a class, or a string/symbol for interfaces and values.
+ */
+export type Token<T = unknown> = (abstract new (...args: any[]) => T) | string | symbol;
+
+/**
+ * - `singleton`: one instance per container
+ * - `transient`: a new instance every time it is resolved
+ * - `resolution`: one instance per resolve() call, shared by every dependency built for it.
+ *   Use cases called from inside `execute` are resolved separately and get their own instances
+ */
+export type DependencyScope = 'singleton' | 'transient' | 'resolution';
+
+export interface DependencyResolver {
+  resolve<T>(token: Token<T>): T;
+}
+
+export type DependencyFactory<T> = (resolver: DependencyResolver) => T;
+
+/**
+ * Hook used by `UseCase.call` to obtain use case instances.
+ * May throw (or reject) when the instance cannot be built.
+ */
+export interface UseCaseResolver {
+  resolve<T>(useCaseClass: new (...args: any[]) => T): T | Promise<T>;
+}
+
+type Registration = {
+  factory: DependencyFactory<unknown>;
+  scope: DependencyScope;
+};
+
+const tokenName = (token: Token): string =>
+  typeof token === 'function' ? token.name : String(token);
+
+const resolutionError = (name: string, error: unknown): DependencyResolutionError => {
+  if (error instanceof DependencyResolutionError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new DependencyResolutionError(`Could not resolve ${name}: ${message}`, { cause: error });
+};
+
+/**
+ * Lightweight dependency injection container.
+ *
+ * Each resolve() call opens a new resolution scope, so `resolution` dependencies are shared
+ * within the resolution of one use case and rebuilt for the next one. Every token must be
+ * registered, classes without constructor arguments included.
+ *
+ * @example
+ * const container = new Container()
+ *   .register(UserRepository, () => new UserRepository(db), 'singleton')
+ *   .register(CreateUserUseCase, c => new CreateUserUseCase(c.resolve(UserRepository)));
+ *
+ * setUseCaseResolver(container);
+ * await CreateUserUseCase.call(input);
+ */
+export class Container implements UseCaseResolver, DependencyResolver {
+  private registrations = new Map<Token, Registration>();
+  private singletons = new Map<Token, unknown>();
+
+  /**
+   * Registers how to build a dependency. Registering a token again replaces it.
+   *
+   * @param token Class, string or symbol identifying the dependency
+   * @param factory Builds the dependency; receives a resolver for its own dependencies
+   * @param scope Lifetime of the built instances, `transient` by default
+   * @returns The container, for chaining
+   */
+  register<T>(
+    token: Token<T>,
+    factory: DependencyFactory<T>,
+    scope: DependencyScope = 'transient',
+  ): this {
+    this.registrations.set(token, { factory, scope });
+    this.singletons.delete(token);
+    return this;
+  }
+
+  /**
+   * Registers an already built value as a singleton.
+   */
+  registerValue<T>(token: Token<T>, value: T): this {
+    return this.register(token, () => value, 'singleton');
+  }
+
+  has(token: Token): boolean {
+    return this.registrations.has(token);
+  }
+
+  /**
+   * Resolves a dependency in a new resolution scope.
+   *
+   * @throws DependencyResolutionError if the token is not registered, its factory throws
+   * or the dependencies are circular
+   */
+  resolve<T>(token: Token<T>): T {
+    return this.createScope().resolve(token);
+  }
+
+  /**
+   * Opens a resolution scope: `resolution` dependencies resolved through it are shared
+   * until the scope is dropped.
+   */
+  createScope(): DependencyResolver {
+    const scoped = new Map<Token, unknown>();
+    const resolving: Token[] = [];
+
+    const scope: DependencyResolver = {
+      resolve: <T>(token: Token<T>): T => {
+        if (resolving.includes(token)) {
+          const path = [...resolving, token].map(tokenName).join(' -> ');
+          throw new DependencyResolutionError(`Circular dependency: ${path}`);
+        }
+
+        const registration = this.registrationOf(token);
+        const cache =
+          registration.scope === 'singleton'
+            ? this.singletons
+            : registration.scope === 'resolution'
+              ? scoped
+              : undefined;
+
+        if (cache?.has(token)) {
+          return cache.get(token) as T;
+        }
+
+        resolving.push(token);
+        try {
+          const instance = registration.factory(scope);
+          cache?.set(token, instance);
+          return instance as T;
+        } catch (error) {
+          throw resolutionError(tokenName(token), error);
+        } finally {
+          resolving.pop();
+        }
+      },
+    };
+
+    return scope;
+  }
+
+  private registrationOf(token: Token): Registration {
+    const registration = this.registrations.get(token);
+
+    if (registration) {
+      return registration;
+    }
+
+    throw new DependencyResolutionError(`No registration found for ${tokenName(token)}`);
+  }
+}
+
+const defaultResolver: UseCaseResolver = {
+  resolve: useCaseClass => new useCaseClass(),
+};
+
+let useCaseResolver: UseCaseResolver = defaultResolver;
+
+/**
+ * Sets the resolver `UseCase.call` uses to obtain instances, for instance a Container
+ * or an adapter around another DI framework.
+ */
+export function setUseCaseResolver(resolver: UseCaseResolver): void {
+  useCaseResolver = resolver;
+}
+
+/**
+ * Get the resolver used by `UseCase.call`
+ */
+export function getUseCaseResolver(): UseCaseResolver {
+  return useCaseResolver;
+}
+
+/**
+ * Restore the default resolver, which calls the constructor without arguments (useful for testing)
+ */
+export function resetUseCaseResolver(): void {
+  useCaseResolver = defaultResolver;
+}
+
+/**
+ * Obtains a use case instance from the registered resolver. Any error is reported as a
+ * DependencyResolutionError.
+ */
+export const resolveUseCase = async <T>(useCaseClass: new (...args: any[]) => T): Promise<T> => {
+  try {
+    return await useCaseResolver.resolve(useCaseClass);
+  } catch (error) {
+    throw resolutionError(useCaseClass.name, error);
+  }
+};
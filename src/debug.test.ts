@@ -88,6 +88,17 @@ describe('Debug Functionality', () => {
       expect(mockOutput[0]).toContain('VALIDATION_ERROR: Test error');
     });
 
+    it('should log scheduled retries', () => {
+      process.env.USECASE_DEBUG = 'true';
+      const logger = new DebugLogger();
+      logger.logRetry('TestCase', 1, 3, 'UNEXPECTED_ERROR', 200);
+
+      expect(mockOutput).toHaveLength(1);
+      expect(mockOutput[0]).toContain(
+        '🔁 [USECASE:RETRY] TestCase - attempt 2/3 in 200ms after UNEXPECTED_ERROR',
+      );
+    });
+
     it('should log wrapper operations', () => {
       process.env.USECASE_DEBUG = 'true';
       const logger = new DebugLogger();
@@ -112,6 +112,41 @@ export class DebugLogger {
     }
   }
 
+  /**
+   * Log a retry scheduled after a failed attempt
+   */
+  logRetry(
+    name: string,
+    attempt: number,
+    maxAttempts: number,
+    failureType: string,
+    delayMs: number,
+  ): void {
+    if (!this.isEnabled()) return;
+
+    console.log(
+      `🔁 [USECASE:RETRY] ${name} - attempt ${attempt + 1}/${maxAttempts} in ${delayMs}ms after ${failureType}`,
+    );
+  }
+
+  /**
+   * Log a Result served from the cache
+   */
+  logCacheHit(useCaseClass: string, key: string): void {
+    if (!this.isEnabled()) return;
+
+    console.log(`💾 [USECASE:CACHE] ${useCaseClass} - hit ${key}`);
+  }
+
+  /**
+   * Log a circuit breaker state transition
+   */
+  logCircuitBreaker(name: string, from: string, to: string): void {
+    if (!this.isEnabled()) return;
+
+    console.log(`⚡ [USECASE:CIRCUIT] ${name} - ${from} → ${to}`);
+  }
+
   /**
    * Log wrapper function execution
    */
@@ -0,0 +1,70 @@
+import {
+  AuthenticationError,
+  AuthorizationError,
+  BulkheadFullError,
+  CancelledError,
+  CircuitOpenError,
+  ConflictError,
+  DependencyResolutionError,
+  DomainError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UnknownUseCaseError,
+  ValidationError,
+} from './errors';
+
+describe('Domain errors', () => {
+  it.each([
+    [ValidationError, 'VALIDATION_ERROR'],
+    [AuthenticationError, 'AUTHENTICATION_ERROR'],
+    [AuthorizationError, 'AUTHORIZATION_ERROR'],
+    [NotFoundError, 'NOT_FOUND'],
+    [ConflictError, 'CONFLICT'],
+    [DependencyResolutionError, 'DEPENDENCY_RESOLUTION_ERROR'],
+    [TimeoutError, 'TIMEOUT'],
+    [CancelledError, 'CANCELLED'],
+    [CircuitOpenError, 'CIRCUIT_OPEN'],
+    [RateLimitedError, 'RATE_LIMITED'],
+    [BulkheadFullError, 'BULKHEAD_FULL'],
+    [UnknownUseCaseError, 'UNKNOWN_USE_CASE'],
+  ])('%p should carry the %s failure type', (ErrorClass, failureType) => {
+    const error = new ErrorClass('Something went wrong');
+
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.failureType).toBe(failureType);
+    expect(error.message).toBe('Something went wrong');
+    expect(error.name).toBe(ErrorClass.name);
+  });
+
+  it('should keep details and cause', () => {
+    const cause = new Error('Row not found');
+    const error = new NotFoundError('User not found', { details: { id: 42 }, cause });
+
+    expect(error.details).toEqual({ id: 42 });
+    expect(error.cause).toBe(cause);
+  });
+
+  describe('ValidationError', () => {
+    it('should summarize a list of issues in the message', () => {
+      const issues = [
+        { path: 'name', message: 'Name is required', code: 'required' },
+        { path: '', message: 'Value is invalid', code: 'invalid' },
+      ];
+
+      const error = new ValidationError(issues);
+
+      expect(error.message).toBe('name: Name is required; value: Value is invalid');
+      expect(error.issues).toBe(issues);
+      expect(error.details).toBe(issues);
+    });
+
+    it('should accept a message with optional issues', () => {
+      const issues = [{ path: 'email', message: 'Invalid email', code: 'invalid_format' }];
+
+      expect(new ValidationError('Invalid input').issues).toEqual([]);
+      expect(new ValidationError('Invalid input', { details: issues }).issues).toBe(issues);
+    });
+  });
+});
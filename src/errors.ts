@@ -0,0 +1,127 @@
+import type { ValidationIssue } from './validation';
+
+export type DomainErrorOptions<D = unknown> = {
+  details?: D;
+  cause?: unknown;
+};
+
+/**
+ * Base class for errors that know which failure type they represent.
+ * Wrappers and use cases read `failureType` to tag failures without any `errorMappings`.
+ */
+export abstract class DomainError<D = unknown> extends Error {
+  abstract readonly failureType: string;
+  readonly details?: D;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: DomainErrorOptions<D> = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Invalid input. When built from a list of issues, the message summarizes them and
+ * `issues` (also available as `details`) keeps every one of them.
+ */
+export class ValidationError extends DomainError<ValidationIssue[]> {
+  readonly failureType = 'VALIDATION_ERROR';
+  readonly issues: ValidationIssue[];
+
+  constructor(
+    messageOrIssues: string | ValidationIssue[],
+    options: DomainErrorOptions<ValidationIssue[]> = {},
+  ) {
+    const issues = Array.isArray(messageOrIssues) ? messageOrIssues : (options.details ?? []);
+    const message = Array.isArray(messageOrIssues)
+      ? messageOrIssues.map(issue => `${issue.path || 'value'}: ${issue.message}`).join('; ')
+      : messageOrIssues;
+
+    super(message, { ...options, details: issues });
+    this.issues = issues;
+  }
+}
+
+export class AuthenticationError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'AUTHENTICATION_ERROR';
+}
+
+export class AuthorizationError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'AUTHORIZATION_ERROR';
+}
+
+export class NotFoundError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'NOT_FOUND';
+}
+
+export class ConflictError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'CONFLICT';
+}
+
+/**
+ * A use case or one of its dependencies could not be built by the registered resolver.
+ */
+export class DependencyResolutionError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'DEPENDENCY_RESOLUTION_ERROR';
+}
+
+/**
+ * The operation did not finish within its time limit.
+ */
+export class TimeoutError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'TIMEOUT';
+}
+
+/**
+ * The caller aborted the operation through its AbortSignal.
+ */
+export class CancelledError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'CANCELLED';
+}
+
+/**
+ * A circuit breaker is open and rejected the call without running it.
+ */
+export class CircuitOpenError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'CIRCUIT_OPEN';
+}
+
+/**
+ * The call exceeded the rate limit of the operation.
+ */
+export class RateLimitedError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'RATE_LIMITED';
+}
+
+/**
+ * Every execution slot and wait queue place of the operation was taken.
+ */
+export class BulkheadFullError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'BULKHEAD_FULL';
+}
+
+/**
+ * No use case is registered under the dispatched name.
+ */
+export class UnknownUseCaseError<D = unknown> extends DomainError<D> {
+  readonly failureType = 'UNKNOWN_USE_CASE';
+}
+
+/**
+ * Failure types assigned to the built-in domain errors.
+ */
+export type DomainFailureType =
+  | ValidationError['failureType']
+  | AuthenticationError['failureType']
+  | AuthorizationError['failureType']
+  | NotFoundError['failureType']
+  | ConflictError['failureType']
+  | DependencyResolutionError['failureType']
+  | TimeoutError['failureType']
+  | CancelledError['failureType']
+  | CircuitOpenError['failureType']
+  | RateLimitedError['failureType']
+  | BulkheadFullError['failureType']
+  | UnknownUseCaseError['failureType'];
@@ -23,4 +23,10 @@ describe('Index exports', () => {
   it('should export UseCase class', () => {
     expect(index.UseCase).toEqual(UseCase);
   });
+
+  it('should not export the pipeline middlewares and composition helpers', () => {
+    for (const name of ['runPipe', 'compositeName', 'retryMiddleware', 'createCallSignal']) {
+      expect(index).not.toHaveProperty(name);
+    }
+  });
 });
@@ -3,3 +3,78 @@ export * from './context';
 export * from './use-case';
 export * from './result-wrapper';
 export * from './debug';
+export * from './validation';
+export * from './errors';
+export * from './serialization';
+export * from './problem-details';
+export * from './saga';
+export * from './registry';
+
+// The modules below also hold the built-in pipeline middlewares and the helpers they share,
+// which stay internal: only their public names are listed.
+export {
+  type UseCaseExecution,
+  type UseCaseNext,
+  type UseCaseMiddleware,
+  useMiddleware,
+  getMiddlewares,
+  resetMiddlewares,
+} from './middleware';
+export {
+  type SchemaResult,
+  type InputSchema,
+  type StandardSchemaLike,
+  validatedSchema,
+  standardSchema,
+} from './schema';
+export {
+  type Token,
+  type DependencyScope,
+  type DependencyResolver,
+  type DependencyFactory,
+  type UseCaseResolver,
+  Container,
+  setUseCaseResolver,
+  getUseCaseResolver,
+  resetUseCaseResolver,
+} from './container';
+export { type RetryAttemptFailure, type RetryPolicy, type RetryRecord } from './retry';
+export { type CallOptions, type AbortFailureType } from './cancellation';
+export {
+  type CircuitState,
+  type CircuitFailure,
+  type CircuitBreakerOptions,
+  CircuitBreaker,
+} from './circuit-breaker';
+export {
+  type CacheEntry,
+  type CacheStore,
+  type CachePolicy,
+  type CacheRecord,
+  MemoryCacheStore,
+  invalidateCache,
+} from './cache';
+export { type SingleFlightPolicy, inFlightCount } from './single-flight';
+export { type RateLimitOptions, type RateLimiterStats, RateLimiter } from './rate-limiter';
+export { type BulkheadOptions, type BulkheadStats, Bulkhead } from './bulkhead';
+export {
+  type TransactionManager,
+  currentTransaction,
+  withUnitOfWork,
+  InMemoryTransaction,
+  InMemoryTransactionManager,
+} from './unit-of-work';
+export {
+  type PipeStep,
+  type StepInput,
+  type StepOutput,
+  type StepError,
+  type StepFailureType,
+  type ComposedUseCaseClass,
+  type Piped,
+  type ParallelChildren,
+  type ParallelOptions,
+  type Parallel,
+  type UseCaseRoutes,
+  type Routed,
+} from './composition';
@@ -0,0 +1,215 @@
+import { getDebugLogger, resetDebugLogger } from './debug';
+import { NotFoundError } from './errors';
+import {
+  type UseCaseMiddleware,
+  debugMiddleware,
+  getMiddlewares,
+  resetMiddlewares,
+  useMiddleware,
+} from './middleware';
+import { Failure, Result, Success } from './result';
+import { UseCase } from './use-case';
+
+class DoubleUseCase extends UseCase<number, number> {
+  async execute(input?: number): Promise<Result<number>> {
+    return Success((input ?? 0) * 2);
+  }
+}
+
+const recorder = (calls: string[], name: string): UseCaseMiddleware => {
+  return async (input, useCase, next) => {
+    calls.push(`${name}:before`);
+    const result = await next();
+    calls.push(`${name}:after`);
+    return result;
+  };
+};
+
+afterEach(() => {
+  resetMiddlewares();
+  resetDebugLogger();
+  delete process.env.USECASE_DEBUG;
+});
+
+describe('Middleware pipeline', () => {
+  it('should run global middlewares before class middlewares', async () => {
+    const calls: string[] = [];
+
+    class TracedUseCase extends DoubleUseCase {
+      static middlewares = [recorder(calls, 'class')];
+    }
+
+    useMiddleware(recorder(calls, 'global1'), recorder(calls, 'global2'));
+
+    const result = await TracedUseCase.call(2);
+
+    expect(result.getValue()).toBe(4);
+    expect(calls).toEqual([
+      'global1:before',
+      'global2:before',
+      'class:before',
+      'class:after',
+      'global2:after',
+      'global1:after',
+    ]);
+  });
+
+  it('should give middlewares the input, the use case instance and the execution', async () => {
+    const middleware = jest.fn<ReturnType<UseCaseMiddleware>, Parameters<UseCaseMiddleware>>(
+      (input, useCase, next) => next(),
+    );
+    useMiddleware(middleware);
+
+    await DoubleUseCase.call(3);
+
+    expect(middleware).toHaveBeenCalledWith(3, expect.any(DoubleUseCase), expect.any(Function), {
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('should only apply class middlewares to that class and its subclasses', async () => {
+    const calls: string[] = [];
+
+    class GuardedUseCase extends DoubleUseCase {
+      static middlewares = [recorder(calls, 'guard')];
+    }
+    class ChildUseCase extends GuardedUseCase {}
+
+    await DoubleUseCase.call(1);
+    await ChildUseCase.call(1);
+
+    expect(calls).toEqual(['guard:before', 'guard:after']);
+  });
+
+  it('should let a middleware short-circuit execution', async () => {
+    const execute = jest.fn();
+
+    class DeniedUseCase extends UseCase<number, number> {
+      static middlewares: UseCaseMiddleware[] = [
+        (): Result<number> => Failure(new Error('Access denied'), 'AUTHORIZATION_ERROR'),
+      ];
+
+      async execute(): Promise<Result<number>> {
+        execute();
+        return Success(1);
+      }
+    }
+
+    const result = await DeniedUseCase.call(1);
+
+    expect(result.getType()).toBe('AUTHORIZATION_ERROR');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should let a middleware transform the input and the output', async () => {
+    useMiddleware(async (input: number, useCase, next) => {
+      const result = await next(input + 1);
+      return result.map(value => value * 10);
+    });
+
+    const result = await DoubleUseCase.call(1);
+
+    expect(result.getValue()).toBe(40);
+    expect(result.context.DoubleUseCase.getInput()).toBe(2);
+  });
+
+  it('should let a middleware decorate the context', async () => {
+    useMiddleware(async (input, useCase, next) => (await next()).withContext({ traceId: 't-1' }));
+
+    const result = await DoubleUseCase.call(1);
+
+    expect(result.context.traceId).toBe('t-1');
+    expect(result.context).toHaveProperty('DoubleUseCase');
+  });
+
+  it('should turn errors thrown by a middleware into failures for the previous step', async () => {
+    let seenByOuter: Result<any, any, any> | undefined;
+
+    useMiddleware(async (input, useCase, next) => {
+      seenByOuter = await next();
+      return seenByOuter;
+    });
+    useMiddleware(() => {
+      throw new NotFoundError('Tenant not found');
+    });
+
+    const result = await DoubleUseCase.call(1);
+
+    expect(seenByOuter?.getType()).toBe('NOT_FOUND');
+    expect(result.getType()).toBe('NOT_FOUND');
+    expect(result.useCaseClass).toBe('DoubleUseCase');
+    expect(result.context).toHaveProperty('rawError');
+  });
+
+  it('should hand errors thrown by execute to the middlewares as failures', async () => {
+    class ThrowingUseCase extends UseCase<number, number> {
+      async execute(): Promise<Result<number>> {
+        throw new Error('Boom');
+      }
+    }
+
+    const types: string[] = [];
+    useMiddleware(async (input, useCase, next) => {
+      const result = await next();
+      types.push(result.getType());
+      return result;
+    });
+
+    await ThrowingUseCase.call(1);
+
+    expect(types).toEqual(['UNEXPECTED_ERROR']);
+  });
+
+  it('should let a middleware call next more than once', async () => {
+    let attempts = 0;
+
+    class FlakyUseCase extends UseCase<number, number> {
+      static middlewares: UseCaseMiddleware[] = [
+        async (input, useCase, next): Promise<Result<number>> => {
+          const result = await next();
+          return result.isFailure() ? next() : result;
+        },
+      ];
+
+      async execute(): Promise<Result<number>> {
+        attempts += 1;
+        if (attempts === 1) throw new Error('Flaky');
+        return Success(attempts);
+      }
+    }
+
+    const result = await FlakyUseCase.call(1);
+
+    expect(result.getValue()).toBe(2);
+  });
+
+  it('should reset the global middlewares', () => {
+    useMiddleware(recorder([], 'global'));
+
+    resetMiddlewares();
+
+    expect(getMiddlewares()).toEqual([]);
+  });
+
+  describe('debugMiddleware', () => {
+    it('should log the outcome through the debug logger', async () => {
+      process.env.USECASE_DEBUG = 'true';
+      const logger = getDebugLogger();
+      const logSuccess = jest.spyOn(logger, 'logSuccess').mockImplementation(() => undefined);
+
+      await debugMiddleware(1, new DoubleUseCase(), async () => Success(2));
+
+      expect(logSuccess).toHaveBeenCalledWith('DoubleUseCase', 2, {});
+    });
+
+    it('should run after the global and class middlewares', async () => {
+      const logger = getDebugLogger();
+      const logFailure = jest.spyOn(logger, 'logFailure').mockImplementation(() => undefined);
+
+      useMiddleware(() => Failure(new Error('Short-circuited')));
+      await DoubleUseCase.call(1);
+
+      expect(logFailure).not.toHaveBeenCalled();
+    });
+  });
+});
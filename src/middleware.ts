@@ -0,0 +1,89 @@
+import { getDebugLogger } from './debug';
+import type { Result } from './result';
+import type { BaseUseCase } from './use-case';
+
+/**
+ * State of one execution shared by every step of the pipeline (always provided when the
+ * middleware runs inside `call()`). `signal` is aborted when the caller cancels the call
+ * or its timeout expires.
+ */
+export type UseCaseExecution = {
+  signal: AbortSignal;
+};
+
+/**
+ * Runs the rest of the pipeline (the next middlewares, then `execute`).
+ * Called without arguments it forwards the current input; an execution may be passed to
+ * replace the current one for the rest of the pipeline. It never rejects, errors thrown
+ * further down come back as failure Results.
+ */
+export type UseCaseNext<I = any, O = any> = (
+  input?: I,
+  execution?: UseCaseExecution,
+) => Promise<Result<O, any, any>>;
+
+/**
+ * Cross-cutting step around use case execution. A middleware may call `next()` (with the
+ * same or a transformed input), change the Result it returns, or return its own Result
+ * without calling `next()` at all.
+ */
+export type UseCaseMiddleware<I = any, O = any> = (
+  input: I,
+  useCase: BaseUseCase<I, O, any, any>,
+  next: UseCaseNext<I, O>,
+  execution?: UseCaseExecution,
+) => Result<O, any, any> | Promise<Result<O, any, any>>;
+
+let globalMiddlewares: UseCaseMiddleware[] = [];
+
+/**
+ * Registers middlewares that run around every use case, before the class middlewares.
+ */
+export function useMiddleware(...middlewares: UseCaseMiddleware[]): void {
+  globalMiddlewares = [...globalMiddlewares, ...middlewares];
+}
+
+/**
+ * Get the registered global middlewares
+ */
+export function getMiddlewares(): readonly UseCaseMiddleware[] {
+  return globalMiddlewares;
+}
+
+/**
+ * Remove every global middleware (useful for testing)
+ */
+export function resetMiddlewares(): void {
+  globalMiddlewares = [];
+}
+
+/**
+ * Built-in middleware logging timing and outcome through the debug logger.
+ * It runs right after the global and class middlewares, before the other built-in ones
+ * (cache, cancellation, single-flight, rate limiter, bulkhead, circuit breaker, retry,
+ * input schema and unit of work), so its timing includes their waits and retries.
+ */
+export const debugMiddleware: UseCaseMiddleware<unknown, unknown> = async (
+  input,
+  useCase,
+  next,
+) => {
+  const debugLogger = getDebugLogger();
+  const useCaseClass = useCase.constructor.name;
+
+  debugLogger.startTiming(useCaseClass, input);
+
+  const result = await next();
+
+  if (result.context.cache?.hit) {
+    debugLogger.logCacheHit(useCaseClass, result.context.cache.key);
+  }
+
+  if (result.isFailure()) {
+    debugLogger.logFailure(useCaseClass, result.getError(), result.getType(), result.context);
+  } else {
+    debugLogger.logSuccess(useCaseClass, result.getValue(), result.context);
+  }
+
+  return result;
+};
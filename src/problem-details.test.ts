@@ -0,0 +1,127 @@
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import {
+  DEFAULT_PROBLEM_MAPPINGS,
+  createProblemDetailsMapper,
+  toProblemDetails,
+} from './problem-details';
+import { Failure, Result, Success } from './result';
+
+beforeEach(() => {
+  delete process.env.USECASE_DEBUG;
+  delete process.env.USECASETS_DEBUG;
+  delete process.env.NODE_ENV;
+});
+
+describe('Problem Details', () => {
+  it('should map the built-in failure types to their HTTP statuses', () => {
+    expect(
+      toProblemDetails(Failure(new ValidationError('Invalid'), 'VALIDATION_ERROR')).status,
+    ).toBe(400);
+    expect(toProblemDetails(Failure(new Error('Login'), 'AUTHENTICATION_ERROR')).status).toBe(401);
+    expect(toProblemDetails(Failure(new Error('Denied'), 'AUTHORIZATION_ERROR')).status).toBe(403);
+    expect(toProblemDetails(Failure(new NotFoundError('Missing'), 'NOT_FOUND')).status).toBe(404);
+    expect(toProblemDetails(Failure(new ConflictError('Taken'), 'CONFLICT')).status).toBe(409);
+    expect(toProblemDetails(Failure(new Error('Boom'), 'UNEXPECTED_ERROR')).status).toBe(500);
+  });
+
+  it('should build an RFC 7807 body', () => {
+    const result: Result<string, NotFoundError, 'NOT_FOUND'> = Failure(
+      new NotFoundError('User 42 not found'),
+      'NOT_FOUND',
+    );
+
+    expect(toProblemDetails(result, '/users/42')).toEqual({
+      status: 404,
+      body: {
+        type: 'about:blank',
+        title: 'Not Found',
+        status: 404,
+        detail: 'User 42 not found',
+        instance: '/users/42',
+        failureType: 'NOT_FOUND',
+      },
+    });
+  });
+
+  it('should include validation issues', () => {
+    const issues = [
+      { path: 'email', message: 'Required', code: 'required' },
+      { path: 'age', message: 'Must be positive', code: 'min' },
+    ];
+
+    const { body } = toProblemDetails(Failure(new ValidationError(issues), 'VALIDATION_ERROR'));
+
+    expect(body.errors).toEqual(issues);
+    expect(body.detail).toBe('email: Required; age: Must be positive');
+  });
+
+  it('should hide the message of server errors outside debug mode', () => {
+    const { body } = toProblemDetails(Failure(new Error('password=secret'), 'UNEXPECTED_ERROR'));
+
+    expect(body.detail).toBeUndefined();
+    expect(body.stack).toBeUndefined();
+  });
+
+  it('should write the stack and server error messages in debug mode', () => {
+    process.env.USECASE_DEBUG = 'true';
+    const error = new Error('Boom');
+
+    const { body } = toProblemDetails(Failure(error, 'UNEXPECTED_ERROR'));
+
+    expect(body.detail).toBe('Boom');
+    expect(body.stack).toBe(error.stack);
+  });
+
+  it('should let the debug option override the environment', () => {
+    process.env.USECASE_DEBUG = 'true';
+    const toProblem = createProblemDetailsMapper({ debug: false });
+
+    expect(toProblem(Failure(new Error('Invalid'), 'VALIDATION_ERROR')).body.stack).toBeUndefined();
+  });
+
+  it('should use the fallback for unmapped failure types', () => {
+    expect(toProblemDetails(Failure(new Error('Nope'), 'PAYMENT_DECLINED')).status).toBe(500);
+
+    const toProblem = createProblemDetailsMapper({
+      fallback: { status: 422, title: 'Unprocessable Entity' },
+    });
+    const { status, body } = toProblem(Failure(new Error('Nope'), 'PAYMENT_DECLINED'));
+
+    expect(status).toBe(422);
+    expect(body.detail).toBe('Nope');
+  });
+
+  it('should merge custom mappings over the defaults', () => {
+    const toProblem = createProblemDetailsMapper({
+      mappings: {
+        PAYMENT_DECLINED: { status: 402, title: 'Payment Required', type: 'https://errors/pay' },
+      },
+    });
+
+    expect(toProblem(Failure(new Error('Declined'), 'PAYMENT_DECLINED')).body).toMatchObject({
+      status: 402,
+      title: 'Payment Required',
+      type: 'https://errors/pay',
+    });
+    expect(toProblem(Failure(new Error('Missing'), 'NOT_FOUND')).status).toBe(
+      DEFAULT_PROBLEM_MAPPINGS.NOT_FOUND.status,
+    );
+  });
+
+  it('should build types from the base URL', () => {
+    const toProblem = createProblemDetailsMapper({
+      typeBaseUrl: 'https://api.example.com/problems/',
+    });
+
+    expect(toProblem(Failure(new Error('Taken'), 'CONFLICT')).body.type).toBe(
+      'https://api.example.com/problems/conflict',
+    );
+    expect(toProblem(Failure(new Error('Denied'), 'AUTHORIZATION_ERROR')).body.type).toBe(
+      'https://api.example.com/problems/authorization-error',
+    );
+  });
+
+  it('should reject successful results', () => {
+    expect(() => toProblemDetails(Success(1))).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,136 @@
+import { getDebugConfig } from './debug';
+import type { Result } from './result';
+import type { ValidationIssue } from './validation';
+
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * How a failure type is reported over HTTP. `type` defaults to `about:blank`, or to
+ * `typeBaseUrl` followed by the kebab-cased failure type when one is configured.
+ */
+export type ProblemMapping = {
+  status: number;
+  title: string;
+  type?: string;
+};
+
+/**
+ * RFC 7807 problem details body. `failureType` is always present, `errors` lists the
+ * issues of validation failures and `stack` is only written in debug mode.
+ */
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  failureType: string;
+  errors?: ValidationIssue[];
+  stack?: string;
+  [extension: string]: unknown;
+};
+
+export type ProblemDetailsResponse = {
+  status: number;
+  body: ProblemDetails;
+};
+
+export type ProblemDetailsMapper = (
+  result: Result<unknown, Error, string>,
+  instance?: string,
+) => ProblemDetailsResponse;
+
+export type ProblemDetailsOptions = {
+  /** Mappings by failure type, merged over the defaults */
+  mappings?: Record<string, ProblemMapping>;
+  /** Mapping used for failure types without one */
+  fallback?: ProblemMapping;
+  /** Base URL used to build `type` for mappings that do not declare one */
+  typeBaseUrl?: string;
+  /** Writes stacks and 5xx messages; defaults to the debug environment variables */
+  debug?: boolean;
+};
+
+export const DEFAULT_PROBLEM_MAPPINGS: Readonly<Record<string, ProblemMapping>> = {
+  VALIDATION_ERROR: { status: 400, title: 'Bad Request' },
+  AUTHENTICATION_ERROR: { status: 401, title: 'Unauthorized' },
+  AUTHORIZATION_ERROR: { status: 403, title: 'Forbidden' },
+  NOT_FOUND: { status: 404, title: 'Not Found' },
+  UNKNOWN_USE_CASE: { status: 404, title: 'Not Found' },
+  CONFLICT: { status: 409, title: 'Conflict' },
+  RATE_LIMITED: { status: 429, title: 'Too Many Requests' },
+  CANCELLED: { status: 499, title: 'Client Closed Request' },
+  CIRCUIT_OPEN: { status: 503, title: 'Service Unavailable' },
+  BULKHEAD_FULL: { status: 503, title: 'Service Unavailable' },
+  TIMEOUT: { status: 504, title: 'Gateway Timeout' },
+  DEPENDENCY_RESOLUTION_ERROR: { status: 500, title: 'Internal Server Error' },
+  UNEXPECTED_ERROR: { status: 500, title: 'Internal Server Error' },
+};
+
+const DEFAULT_FALLBACK: ProblemMapping = { status: 500, title: 'Internal Server Error' };
+
+const issuesOf = (error: Error): ValidationIssue[] | undefined => {
+  const issues = (error as { issues?: unknown }).issues;
+  return Array.isArray(issues) && issues.length > 0 ? issues : undefined;
+};
+
+const problemType = (failureType: string, typeBaseUrl?: string): string => {
+  if (!typeBaseUrl) return 'about:blank';
+  return `${typeBaseUrl.replace(/\/+$/, '')}/${failureType.toLowerCase().replace(/_/g, '-')}`;
+};
+
+/**
+ * Creates a function that turns failure Results into RFC 7807 responses.
+ *
+ * The error message becomes `detail`, except for 5xx statuses outside debug mode so
+ * internal messages do not leak. Validation issues are written to `errors`.
+ *
+ * @param options Mappings, fallback, type base URL and debug flag
+ * @returns A mapper taking a failure Result and an optional `instance` URI
+ */
+export const createProblemDetailsMapper = (
+  options: ProblemDetailsOptions = {},
+): ProblemDetailsMapper => {
+  const mappings = { ...DEFAULT_PROBLEM_MAPPINGS, ...options.mappings };
+  const fallback = options.fallback ?? DEFAULT_FALLBACK;
+
+  return (result, instance) => {
+    if (result.isSuccess()) {
+      throw new TypeError('Cannot build problem details from a successful Result');
+    }
+
+    const failureType = result.getType();
+    const error = result.getError();
+    const mapping = mappings[failureType] ?? fallback;
+    const debug = options.debug ?? getDebugConfig().enabled;
+
+    const body: ProblemDetails = {
+      type: mapping.type ?? problemType(failureType, options.typeBaseUrl),
+      title: mapping.title,
+      status: mapping.status,
+      failureType,
+    };
+
+    if (error.message && (mapping.status < 500 || debug)) body.detail = error.message;
+    if (instance) body.instance = instance;
+
+    const issues = issuesOf(error);
+    if (issues) body.errors = issues;
+
+    if (debug && error.stack) body.stack = error.stack;
+
+    return { status: mapping.status, body };
+  };
+};
+
+/**
+ * Converts a failure Result into an RFC 7807 response using the default mappings.
+ *
+ * @example
+ * const { status, body } = toProblemDetails(await CreateUserUseCase.call(input), req.url);
+ * res.status(status).type(PROBLEM_JSON_CONTENT_TYPE).json(body);
+ */
+export const toProblemDetails = (
+  result: Result<unknown, Error, string>,
+  instance?: string,
+): ProblemDetailsResponse => createProblemDetailsMapper()(result, instance);
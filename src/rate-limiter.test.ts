@@ -0,0 +1,141 @@
+import { RateLimitedError } from './errors';
+import { RateLimiter, type RateLimitOptions } from './rate-limiter';
+import { Failure, Result, Success } from './result';
+import { UseCase } from './use-case';
+
+let clock = 0;
+const now = (): number => clock;
+
+const succeeding = async (): Promise<Result<string>> => Success('sent');
+const rejected = (error: RateLimitedError): Result<string> => Failure(error, error.failureType);
+
+const createLimiter = (options: Partial<RateLimitOptions> = {}): RateLimiter =>
+  new RateLimiter({ limit: 2, intervalMs: 1000, now, ...options });
+
+beforeEach(() => {
+  clock = 0;
+});
+
+describe('RateLimiter', () => {
+  it('should allow up to the burst and reject the rest', async () => {
+    const limiter = createLimiter();
+
+    await limiter.execute(succeeding, rejected);
+    await limiter.execute(succeeding, rejected);
+    const result = await limiter.execute(succeeding, rejected);
+
+    expect(result.getType()).toBe('RATE_LIMITED');
+    expect(result.getError()).toBeInstanceOf(RateLimitedError);
+    expect((result.getError() as RateLimitedError).details).toEqual({ retryAfterMs: 500 });
+    expect(limiter.stats).toEqual({ tokens: 0, queued: 0, rejected: 1 });
+  });
+
+  it('should refill tokens over time', async () => {
+    const limiter = createLimiter();
+    await limiter.execute(succeeding, rejected);
+    await limiter.execute(succeeding, rejected);
+
+    clock = 500;
+
+    expect((await limiter.execute(succeeding, rejected)).isSuccess()).toBe(true);
+    expect(limiter.stats.tokens).toBe(0);
+  });
+
+  it('should not hold more tokens than the burst', async () => {
+    const limiter = createLimiter({ burst: 1 });
+
+    clock = 10000;
+    await limiter.execute(succeeding, rejected);
+
+    expect((await limiter.execute(succeeding, rejected)).getType()).toBe('RATE_LIMITED');
+  });
+
+  it('should delay calls until their token is available in wait mode', async () => {
+    const sleep = jest.fn(async (ms: number) => {
+      clock += ms;
+    });
+    const limiter = createLimiter({ limit: 1, mode: 'wait', sleep });
+
+    await limiter.execute(succeeding, rejected);
+    const result = await limiter.execute(succeeding, rejected);
+
+    expect(result.getValue()).toBe('sent');
+    expect(sleep).toHaveBeenCalledWith(1000);
+  });
+
+  it('should queue waiting calls one token apart', async () => {
+    const sleep = jest.fn(() => new Promise<void>(() => undefined));
+    const limiter = createLimiter({ limit: 1, mode: 'wait', sleep });
+
+    await limiter.execute(succeeding, rejected);
+    limiter.execute(succeeding, rejected);
+    limiter.execute(succeeding, rejected);
+
+    expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+    expect(limiter.stats.queued).toBe(2);
+  });
+
+  it('should give the token back when a waiting call is aborted', async () => {
+    const sleep = jest.fn(() => new Promise<void>(() => undefined));
+    const limiter = createLimiter({ limit: 1, mode: 'wait', sleep });
+    const controller = new AbortController();
+    const operation = jest.fn(succeeding);
+
+    await limiter.execute(succeeding, rejected);
+    const waiting = limiter.execute(operation, rejected, controller.signal);
+    controller.abort();
+    const result = await waiting;
+
+    expect(operation).not.toHaveBeenCalled();
+    expect(result.getError().message).toBe('Left the rate limiter queue');
+    expect(limiter.stats).toEqual({ tokens: 0, queued: 0, rejected: 0 });
+
+    clock = 1000;
+    expect((await limiter.execute(succeeding, rejected)).isSuccess()).toBe(true);
+  });
+
+  it('should reject calls that would wait longer than maxWaitMs', async () => {
+    const limiter = createLimiter({ limit: 1, mode: 'wait', maxWaitMs: 500 });
+
+    await limiter.execute(succeeding, rejected);
+    const result = await limiter.execute(succeeding, rejected);
+
+    expect(result.getType()).toBe('RATE_LIMITED');
+  });
+
+  describe('use case rate limiter', () => {
+    it('should return RATE_LIMITED failures without calling execute', async () => {
+      const execute = jest.fn(async (): Promise<Result<void>> => Success(undefined));
+
+      class SendSmsUseCase extends UseCase<string, void> {
+        static rateLimiter = createLimiter({ limit: 1 });
+
+        execute = execute;
+      }
+
+      await SendSmsUseCase.call('hello');
+      const result = await SendSmsUseCase.call('again');
+
+      expect(result.getType()).toBe('RATE_LIMITED');
+      expect(result.useCaseClass).toBe('SendSmsUseCase');
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not run execute for calls that time out while waiting for a token', async () => {
+      const execute = jest.fn(async (): Promise<Result<void>> => Success(undefined));
+
+      class SendEmailUseCase extends UseCase<string, void> {
+        static rateLimiter = new RateLimiter({ limit: 1, intervalMs: 20, mode: 'wait' });
+
+        execute = execute;
+      }
+
+      await SendEmailUseCase.call('hello');
+      const result = await SendEmailUseCase.call('again', { timeoutMs: 5 });
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      expect(result.getType()).toBe('TIMEOUT');
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { RateLimitedError } from './errors';
+import type { UseCaseMiddleware } from './middleware';
+import { Failure, type Result } from './result';
+
+/**
+ * Token bucket configuration.
+ *
+ * - `limit`: calls allowed per `intervalMs`; the bucket refills at that pace
+ * - `burst`: tokens the bucket holds, i.e. calls allowed at once after a quiet period
+ *   (`limit` by default)
+ * - `mode`: `reject` (default) returns `RATE_LIMITED` failures when the bucket is empty;
+ *   `wait` delays the call until its token is available
+ * - `maxWaitMs`: in `wait` mode, calls that would wait longer are rejected (no limit by default)
+ * - `now` and `sleep`: replace the clock and the timer, for instance in tests
+ */
+export type RateLimitOptions = {
+  limit: number;
+  intervalMs: number;
+  burst?: number;
+  mode?: 'reject' | 'wait';
+  maxWaitMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+/**
+ * Live counters of a rate limiter.
+ */
+export type RateLimiterStats = {
+  tokens: number;
+  queued: number;
+  rejected: number;
+};
+
+const defaultSleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Resolves when the promise does or as soon as the signal is aborted.
+ */
+const waitUnlessAborted = (promise: Promise<void>, signal?: AbortSignal): Promise<void> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.resolve();
+
+  return new Promise<void>(resolve => {
+    const onAbort = (): void => resolve();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, resolve).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Limits how often an operation runs with a token bucket. Share one instance between every
+ * call to the limited resource, for instance as the `rateLimiter` of a use case class.
+ *
+ * @example
+ * class SendSmsUseCase extends UseCase<Sms, void> {
+ *   static rateLimiter = new RateLimiter({ limit: 10, intervalMs: 1000, mode: 'wait' });
+ * }
+ */
+export class RateLimiter {
+  private tokens: number;
+  private refilledAt: number;
+  private queued = 0;
+  private rejected = 0;
+
+  constructor(private readonly options: RateLimitOptions) {
+    this.tokens = this.capacity();
+    this.refilledAt = this.now();
+  }
+
+  get stats(): RateLimiterStats {
+    this.refill();
+    return { tokens: Math.max(0, this.tokens), queued: this.queued, rejected: this.rejected };
+  }
+
+  /**
+   * Runs the operation once a token is available.
+   *
+   * @param operation Operation limited by the rate limiter
+   * @param onReject Builds the Result returned when the call is rejected
+   * @param signal In `wait` mode, stops waiting and gives the token back once aborted
+   * @returns The Result of the operation, or the one built by `onReject`
+   */
+  async execute<R extends Result<any, any, any>>(
+    operation: () => Promise<R>,
+    onReject: (error: RateLimitedError) => R,
+    signal?: AbortSignal,
+  ): Promise<R> {
+    const { mode = 'reject', maxWaitMs = Infinity, sleep = defaultSleep } = this.options;
+
+    this.refill();
+
+    // Tokens go below zero while calls wait for them: each waiter has reserved its own
+    const waitMs = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillRate());
+
+    if (waitMs > 0 && (mode === 'reject' || waitMs > maxWaitMs)) {
+      this.rejected += 1;
+      return onReject(
+        new RateLimitedError('Rate limit exceeded', { details: { retryAfterMs: waitMs } }),
+      );
+    }
+
+    this.tokens -= 1;
+
+    if (waitMs > 0) {
+      this.queued += 1;
+      try {
+        await waitUnlessAborted(sleep(waitMs), signal);
+      } finally {
+        this.queued -= 1;
+      }
+    }
+
+    if (signal?.aborted) {
+      this.tokens += 1;
+      return onReject(new RateLimitedError('Left the rate limiter queue'));
+    }
+
+    return operation();
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(
+      this.capacity(),
+      this.tokens + (now - this.refilledAt) * this.refillRate(),
+    );
+    this.refilledAt = now;
+  }
+
+  private capacity(): number {
+    return this.options.burst ?? this.options.limit;
+  }
+
+  private refillRate(): number {
+    return this.options.limit / this.options.intervalMs;
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
+
+/**
+ * Built-in middleware running `execute` through the class's `rateLimiter`. Rejected calls
+ * return a `RATE_LIMITED` failure.
+ */
+export const rateLimiterMiddleware: UseCaseMiddleware<unknown, unknown> = (
+  input,
+  useCase,
+  next,
+  execution,
+) => {
+  const { rateLimiter } = useCase.constructor as { rateLimiter?: RateLimiter };
+
+  if (!rateLimiter) {
+    return next();
+  }
+
+  return rateLimiter.execute(
+    () => next(),
+    error => Failure(error, error.failureType, {}, useCase.constructor.name),
+    execution?.signal,
+  );
+};
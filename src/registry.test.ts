@@ -0,0 +1,80 @@
+import { UnknownUseCaseError } from './errors';
+import { UseCaseRegistry } from './registry';
+import { Result, Success } from './result';
+import { UseCase } from './use-case';
+
+class CreateUserUseCase extends UseCase<{ name: string }, string> {
+  async execute({ name }: { name: string }): Promise<Result<string>> {
+    return Success(`created ${name}`);
+  }
+}
+
+class FindUserUseCase extends UseCase<string, string> {
+  async execute(id: string): Promise<Result<string>> {
+    return Success(`user ${id}`);
+  }
+}
+
+let registry: UseCaseRegistry;
+
+beforeEach(() => {
+  registry = new UseCaseRegistry()
+    .register('users.create', CreateUserUseCase, { description: 'Signs a user up' })
+    .register('users.find', FindUserUseCase);
+});
+
+describe('UseCaseRegistry', () => {
+  it('should dispatch the input to the use case registered under the name', async () => {
+    const result = await registry.dispatch<string>('users.create', { name: 'Ana' });
+
+    expect(result.getValue()).toBe('created Ana');
+    expect(result.useCaseClass).toBe('CreateUserUseCase');
+  });
+
+  it('should return an UNKNOWN_USE_CASE failure for unregistered names', async () => {
+    const result = await registry.dispatch('users.delete', 'u1');
+
+    expect(result.getType()).toBe('UNKNOWN_USE_CASE');
+    expect(result.getError()).toBeInstanceOf(UnknownUseCaseError);
+    expect(result.getError().message).toBe('No use case registered as "users.delete"');
+  });
+
+  it('should reject duplicate names', () => {
+    expect(() => registry.register('users.find', CreateUserUseCase)).toThrow(
+      'Use case name "users.find" is already registered for FindUserUseCase',
+    );
+    expect(registry.get('users.find')).toBe(FindUserUseCase);
+  });
+
+  it('should list the registrations in order', () => {
+    expect(registry.list()).toEqual([
+      {
+        name: 'users.create',
+        useCaseClass: CreateUserUseCase,
+        description: 'Signs a user up',
+      },
+      { name: 'users.find', useCaseClass: FindUserUseCase },
+    ]);
+    expect(registry.has('users.find')).toBe(true);
+  });
+
+  it('should register composites and forget unregistered names', async () => {
+    registry.register(
+      'users.greet',
+      UseCase.pipe(FindUserUseCase, user => user.toUpperCase()),
+    );
+
+    expect((await registry.dispatch('users.greet', 'u1')).getValue()).toBe('USER U1');
+    expect(registry.unregister('users.greet')).toBe(true);
+    expect(registry.has('users.greet')).toBe(false);
+  });
+
+  it('should forward the call options', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await registry.dispatch('users.find', 'u1', { signal: controller.signal });
+
+    expect(result.getType()).toBe('CANCELLED');
+  });
+});
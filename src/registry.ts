@@ -0,0 +1,115 @@
+import type { CallOptions } from './cancellation';
+import { getDebugLogger } from './debug';
+import { UnknownUseCaseError } from './errors';
+import { Failure, ResultPromise } from './result';
+import type { CallFailureType, UseCaseClass } from './use-case';
+
+/**
+ * Describes a registered use case, as listed by UseCaseRegistry.list().
+ */
+export type UseCaseRegistration = {
+  name: string;
+  useCaseClass: UseCaseClass;
+  description?: string;
+};
+
+/**
+ * Failure types a dispatch can add to those of the dispatched use case: those of its
+ * `call()`, `UNKNOWN_USE_CASE` included.
+ */
+export type DispatchFailureType = CallFailureType | UnknownUseCaseError['failureType'];
+
+/**
+ * Use cases registered under stable names, to be dispatched by name from HTTP routes,
+ * queue consumers or a CLI without importing their classes.
+ *
+ * @example
+ * const registry = new UseCaseRegistry()
+ *   .register('users.create', CreateUserUseCase, { description: 'Signs a user up' })
+ *   .register('users.find', FindUserUseCase);
+ *
+ * app.post('/commands/:name', async (req, res) => {
+ *   const result = await registry.dispatch(req.params.name, req.body);
+ *   // ...
+ * });
+ */
+export class UseCaseRegistry {
+  private readonly registrations = new Map<string, UseCaseRegistration>();
+
+  /**
+   * Registers a use case class under a name.
+   *
+   * @param name Stable name the use case is dispatched by
+   * @param useCaseClass Use case class, also composites such as UseCase.pipe()
+   * @param options Description shown by list()
+   * @returns The registry, for chaining
+   * @throws Error if the name is already registered
+   */
+  register(name: string, useCaseClass: UseCaseClass, options: { description?: string } = {}): this {
+    const registered = this.registrations.get(name);
+
+    if (registered) {
+      throw new Error(
+        `Use case name "${name}" is already registered for ${registered.useCaseClass.name}`,
+      );
+    }
+
+    this.registrations.set(name, { name, useCaseClass, ...options });
+    return this;
+  }
+
+  /**
+   * Removes a registration, for instance in tests.
+   *
+   * @returns Whether the name was registered
+   */
+  unregister(name: string): boolean {
+    return this.registrations.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.registrations.has(name);
+  }
+
+  /**
+   * Use case class registered under the name, if any.
+   */
+  get(name: string): UseCaseClass | undefined {
+    return this.registrations.get(name)?.useCaseClass;
+  }
+
+  /**
+   * Every registration, in the order they were made.
+   */
+  list(): UseCaseRegistration[] {
+    return [...this.registrations.values()];
+  }
+
+  /**
+   * Calls the use case registered under the name through its static `call`, so the
+   * registered resolver builds the instance. Unknown names return an `UNKNOWN_USE_CASE`
+   * failure.
+   *
+   * @param name Name the use case was registered under
+   * @param input Input of the use case
+   * @param options Cancellation signal and timeout, see BaseUseCase.call()
+   * @returns ResultPromise of the use case's Result
+   */
+  dispatch<O = unknown, E extends Error = Error, F extends string = string>(
+    name: string,
+    input?: unknown,
+    options?: CallOptions,
+  ): ResultPromise<O, E | Error, F | DispatchFailureType> {
+    const useCaseClass = this.get(name);
+
+    if (!useCaseClass) {
+      const error = new UnknownUseCaseError(`No use case registered as "${name}"`, {
+        details: { name },
+      });
+      getDebugLogger().logFailure(name, error, error.failureType);
+      return new ResultPromise(Promise.resolve(Failure(error, error.failureType, {}, name)));
+    }
+
+    return useCaseClass.call(input, options ?? {});
+  }
+}
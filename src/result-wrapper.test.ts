@@ -3,7 +3,11 @@ import {
   ResultAsyncWrapper,
   ResultWrapValue,
   ResultWrapValueAsync,
-} from './result-wrapper'; /**
+} from './result-wrapper';
+import * as domainErrors from './errors';
+import { CircuitBreaker } from './circuit-breaker';
+
+/**
  * Classe de erro personalizada para validação
  */
 class ValidationError extends Error {
@@ -215,6 +219,108 @@ describe('ResultWrapper', () => {
       expect(result.isFailure()).toBe(true);
       expect(result.getType()).toBe('NOT_FOUND_ERROR');
     });
+
+    it('deve repetir a função conforme a política de retry', async () => {
+      const sleep = jest.fn(async () => undefined);
+      let calls = 0;
+      const fn = async () => {
+        calls += 1;
+        if (calls < 3) throw new Error('Timeout');
+        return 'ok';
+      };
+
+      const result = await ResultAsyncWrapper(fn, { retry: { maxAttempts: 3, sleep } });
+
+      expect(result.getValue()).toBe('ok');
+      expect(result.context.retry.attempts).toBe(3);
+      expect(sleep).toHaveBeenCalledTimes(2);
+    });
+
+    it('não deve repetir a função quando o signal é abortado durante a espera', async () => {
+      const controller = new AbortController();
+      const fn = jest.fn(async (): Promise<string> => {
+        throw new Error('Timeout');
+      });
+
+      const result = await ResultAsyncWrapper(fn, {
+        signal: controller.signal,
+        retry: { maxAttempts: 3, sleep: async () => controller.abort() },
+      });
+
+      expect(result.getType()).toBe('CANCELLED');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('deve repetir por padrão apenas falhas não mapeadas', async () => {
+      const fn = jest.fn(async () => {
+        throw new NotFoundError('User not found');
+      });
+
+      const result = await ResultAsyncWrapper(fn, {
+        errorMappings: [{ errorType: NotFoundError, failureType: 'NOT_FOUND_ERROR' }],
+        retry: { maxAttempts: 3, sleep: async () => undefined },
+      });
+
+      expect(result.getType()).toBe('NOT_FOUND_ERROR');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('deve retornar TIMEOUT quando a função passa do timeoutMs', async () => {
+      let received: AbortSignal | undefined;
+      const fn = (id: number, options: { signal?: AbortSignal } = {}): Promise<number> => {
+        received = options.signal;
+        return new Promise<number>(() => undefined);
+      };
+
+      const result = await ResultAsyncWrapper(fn, {
+        timeoutMs: 10,
+        withSignal: signal => [1, { signal }],
+      });
+
+      expect(result.getType()).toBe('TIMEOUT');
+      expect(result.getError()).toBeInstanceOf(domainErrors.TimeoutError);
+      expect(received?.aborted).toBe(true);
+    });
+
+    it('não deve alterar os argumentos da função sem withSignal', async () => {
+      const fn = jest.fn(async (id: number, options: { verbose?: boolean } = {}) => options);
+
+      const result = await ResultAsyncWrapper(fn, [1], { timeoutMs: 100 });
+
+      expect(fn).toHaveBeenCalledWith(1);
+      expect(result.getValue()).toEqual({});
+    });
+
+    it('deve retornar CANCELLED quando o sinal é abortado', async () => {
+      const controller = new AbortController();
+      const fn = (): Promise<string> => new Promise<string>(() => undefined);
+
+      const promise = ResultAsyncWrapper(fn, {
+        signal: controller.signal,
+        context: { requestId: 'r1' },
+      });
+      controller.abort();
+      const result = await promise;
+
+      expect(result.getType()).toBe('CANCELLED');
+      expect(result.getError()).toBeInstanceOf(domainErrors.CancelledError);
+      expect(result.context).toEqual({ requestId: 'r1' });
+    });
+
+    it('deve retornar CIRCUIT_OPEN sem chamar a função com o circuito aberto', async () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+      const fn = jest.fn(async () => {
+        throw new Error('Service unavailable');
+      });
+
+      await ResultAsyncWrapper(fn, { circuitBreaker });
+      const result = await ResultAsyncWrapper(fn, { circuitBreaker, useCaseClass: 'RatesClient' });
+
+      expect(result.getType()).toBe('CIRCUIT_OPEN');
+      expect(result.useCaseClass).toBe('RatesClient');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('múltiplos mapeamentos de erro', () => {
@@ -437,6 +543,34 @@ describe('ResultWrapValue - envolver valores já executados', () => {
     expect(result.getType()).toBe('FAILURE');
   });
 
+  it('deve retornar VALIDATION_ERROR com todas as issues quando a validação customizada retorna uma lista', () => {
+    const result = ResultWrapValue(
+      { name: '', email: 'invalid' },
+      {
+        customValidation: data => [
+          ...(data.name ? [] : [{ path: 'name', message: 'Name is required', code: 'required' }]),
+          ...(data.email.includes('@')
+            ? []
+            : [{ path: 'email', message: 'Invalid email', code: 'invalid_format' }]),
+        ],
+      },
+    );
+
+    expect(result.isFailure()).toBe(true);
+    expect(result.getType()).toBe('VALIDATION_ERROR');
+    expect(result.getError()).toBeInstanceOf(domainErrors.ValidationError);
+    expect((result.getError() as domainErrors.ValidationError).issues).toEqual([
+      { path: 'name', message: 'Name is required', code: 'required' },
+      { path: 'email', message: 'Invalid email', code: 'invalid_format' },
+    ]);
+  });
+
+  it('deve retornar Success quando a validação customizada retorna uma lista vazia', () => {
+    const result = ResultWrapValue('valid', { customValidation: () => [] });
+
+    expect(result.isSuccess()).toBe(true);
+  });
+
   it('deve incluir context e useCaseClass', () => {
     const result = ResultWrapValue('test', {
       context: { userId: '123' },
@@ -449,6 +583,42 @@ describe('ResultWrapValue - envolver valores já executados', () => {
   });
 });
 
+describe('mapeamento automático de DomainError', () => {
+  it('ResultWrapper deve usar o failureType do erro sem errorMappings', () => {
+    const result = ResultWrapper(() => {
+      throw new domainErrors.NotFoundError('User not found');
+    });
+
+    expect(result.getType()).toBe('NOT_FOUND');
+    expect(result.getError()).toBeInstanceOf(domainErrors.NotFoundError);
+  });
+
+  it('ResultAsyncWrapper deve usar o failureType do erro sem errorMappings', async () => {
+    const result = await ResultAsyncWrapper(async () => {
+      throw new domainErrors.ConflictError('Email already in use');
+    });
+
+    expect(result.getType()).toBe('CONFLICT');
+  });
+
+  it('ResultWrapValue deve usar o failureType do erro envolvido', () => {
+    const result = ResultWrapValue(new domainErrors.AuthorizationError('Forbidden'));
+
+    expect(result.getType()).toBe('AUTHORIZATION_ERROR');
+  });
+
+  it('errorMappings explícitos devem ter prioridade', () => {
+    const result = ResultWrapper(
+      () => {
+        throw new domainErrors.NotFoundError('User not found');
+      },
+      { errorMappings: [{ errorType: domainErrors.NotFoundError, failureType: 'USER_NOT_FOUND' }] },
+    );
+
+    expect(result.getType()).toBe('USER_NOT_FOUND');
+  });
+});
+
 describe('ResultWrapValueAsync - envolver valores/promises já executados', () => {
   it('deve retornar Success para valor válido', async () => {
     const value = 'Hello World';
@@ -1,5 +1,10 @@
 import { Result, Success, Failure } from './result';
 import { getDebugLogger } from './debug';
+import { type CallOptions, createCallSignal, raceAbort } from './cancellation';
+import type { CircuitBreaker } from './circuit-breaker';
+import { DomainError, ValidationError } from './errors';
+import { type RetryPolicy, retryResult } from './retry';
+import type { ValidationIssue } from './validation';
 
 export type ErrorMapping = {
   errorType: new (...args: any[]) => Error;
@@ -13,6 +18,14 @@ export type WrapperOptions = {
   useCaseClass?: string;
 };
 
+export type AsyncWrapperOptions = WrapperOptions &
+  CallOptions & {
+    retry?: RetryPolicy;
+    circuitBreaker?: CircuitBreaker;
+    // Monta os argumentos da função a partir do AbortSignal da execução
+    withSignal?: (signal: AbortSignal) => any[];
+  };
+
 export type ValueWrapperOptions = WrapperOptions & {
   nullAsFailure?: boolean;
   undefinedAsFailure?: boolean;
@@ -20,11 +33,12 @@ export type ValueWrapperOptions = WrapperOptions & {
   zeroAsFailure?: boolean;
   emptyArrayAsFailure?: boolean;
   emptyObjectAsFailure?: boolean;
-  customValidation?: (value: any) => boolean | string;
+  customValidation?: (value: any) => boolean | string | ValidationIssue[];
 };
 
 /**
- * Mapeia um erro para um tipo de falha específico baseado nas configurações
+ * Mapeia um erro para um tipo de falha específico baseado nas configurações.
+ * Os mapeamentos explícitos têm prioridade; depois vale o failureType de um DomainError.
  *
  * @param error Erro capturado
  * @param errorMappings Mapeamentos de erro
@@ -41,6 +55,9 @@ const mapErrorToFailureType = (
       return mapping.failureType;
     }
   }
+  if (error instanceof DomainError) {
+    return error.failureType;
+  }
   return defaultFailureType;
 };
 
@@ -49,9 +66,12 @@ const mapErrorToFailureType = (
  *
  * @param value Valor a ser validado
  * @param options Opções de validação
- * @returns true se válido, string com mensagem de erro se inválido
+ * @returns true se válido, string com mensagem de erro ou lista de issues se inválido
  */
-const validateValue = (value: any, options: ValueWrapperOptions): boolean | string => {
+const validateValue = (
+  value: any,
+  options: ValueWrapperOptions,
+): boolean | string | ValidationIssue[] => {
   // Verificações básicas
   if (options.nullAsFailure && value === null) {
     return 'Value is null';
@@ -86,6 +106,9 @@ const validateValue = (value: any, options: ValueWrapperOptions): boolean | stri
   // Validação customizada
   if (options.customValidation) {
     const customResult = options.customValidation(value);
+    if (Array.isArray(customResult)) {
+      return customResult.length > 0 ? customResult : true;
+    }
     if (customResult !== true) {
       return typeof customResult === 'string' ? customResult : 'Custom validation failed';
     }
@@ -94,6 +117,27 @@ const validateValue = (value: any, options: ValueWrapperOptions): boolean | stri
   return true;
 };
 
+/**
+ * Converte o resultado de uma validação que falhou em erro e tipo de falha.
+ * Listas de issues viram um ValidationError, mapeado para 'VALIDATION_ERROR'.
+ *
+ * @param validationResult Resultado retornado por validateValue
+ * @param errorMappings Mapeamentos de erro
+ * @param defaultFailureType Tipo de falha padrão para mensagens simples
+ * @returns Erro e tipo de falha mapeado
+ */
+const validationFailure = (
+  validationResult: boolean | string | ValidationIssue[],
+  errorMappings: ErrorMapping,
+  defaultFailureType: string,
+): { error: Error; failureType: string } => {
+  const error = Array.isArray(validationResult)
+    ? new ValidationError(validationResult)
+    : new Error(typeof validationResult === 'string' ? validationResult : 'Validation failed');
+
+  return { error, failureType: mapErrorToFailureType(error, errorMappings, defaultFailureType) };
+};
+
 /**
  * Envolve uma função síncrona em um Result
  * Suporta funções com ou sem parâmetros
@@ -147,6 +191,11 @@ export const ResultWrapper = <T>(
 /**
  * Envolve uma função assíncrona em um Result
  * Suporta funções com ou sem parâmetros
+ * Com `retry`, a função é executada novamente conforme a política de retry
+ * Com `circuitBreaker`, a função não é chamada enquanto o circuito estiver aberto
+ * Com `signal` ou `timeoutMs`, o Result é uma falha 'CANCELLED' ou 'TIMEOUT' assim que o
+ * sinal é abortado. Para repassar o AbortSignal à função, use `withSignal`, que monta os
+ * argumentos da função no lugar dos parâmetros
  *
  * @param fn Função assíncrona a ser executada (com ou sem parâmetros)
  * @param paramsOrOptions Parâmetros da função ou opções de configuração
@@ -155,11 +204,11 @@ export const ResultWrapper = <T>(
  */
 export const ResultAsyncWrapper = async <T>(
   fn: (...args: any[]) => Promise<T>,
-  paramsOrOptions?: any[] | WrapperOptions,
-  options?: WrapperOptions,
+  paramsOrOptions?: any[] | AsyncWrapperOptions,
+  options?: AsyncWrapperOptions,
 ): Promise<Result<T>> => {
   let params: any[] = [];
-  let config: WrapperOptions = {};
+  let config: AsyncWrapperOptions = {};
 
   // Detectar se o segundo parâmetro são parâmetros ou opções
   if (Array.isArray(paramsOrOptions)) {
@@ -169,28 +218,79 @@ export const ResultAsyncWrapper = async <T>(
     config = paramsOrOptions || {};
   }
 
-  const { errorMappings = [], defaultFailureType = 'FAILURE', context, useCaseClass } = config;
+  const {
+    errorMappings = [],
+    defaultFailureType = 'FAILURE',
+    context,
+    useCaseClass,
+    retry,
+    circuitBreaker,
+    signal,
+    timeoutMs,
+    withSignal,
+  } = config;
   const debugLogger = getDebugLogger();
-  const startTime = Date.now();
   const functionName = fn.name || 'anonymous';
+  const callSignal =
+    signal || timeoutMs !== undefined || withSignal
+      ? createCallSignal({ signal, timeoutMs })
+      : undefined;
+  const args = callSignal && withSignal ? withSignal(callSignal.signal) : params;
 
-  try {
-    const result = await fn(...params);
+  const attempt = async (): Promise<Result<T>> => {
+    const startTime = Date.now();
 
-    // Log success
-    const duration = Date.now() - startTime;
-    debugLogger.logWrapper('ResultAsyncWrapper', true, functionName, undefined, duration);
+    try {
+      const result = await fn(...args);
 
-    return Success(result, context, useCaseClass);
-  } catch (error) {
-    const mappedFailureType = mapErrorToFailureType(error, errorMappings, defaultFailureType);
-    const wrappedError = error instanceof Error ? error : new Error(String(error));
+      // Log success
+      const duration = Date.now() - startTime;
+      debugLogger.logWrapper('ResultAsyncWrapper', true, functionName, undefined, duration);
 
-    // Log failure
-    const duration = Date.now() - startTime;
-    debugLogger.logWrapper('ResultAsyncWrapper', false, functionName, wrappedError, duration);
+      return Success(result, context, useCaseClass);
+    } catch (error) {
+      const mappedFailureType = mapErrorToFailureType(error, errorMappings, defaultFailureType);
+      const wrappedError = error instanceof Error ? error : new Error(String(error));
 
-    return Failure<T>(wrappedError, mappedFailureType, context, useCaseClass);
+      // Log failure
+      const duration = Date.now() - startTime;
+      debugLogger.logWrapper('ResultAsyncWrapper', false, functionName, wrappedError, duration);
+
+      return Failure<T>(wrappedError, mappedFailureType, context, useCaseClass);
+    }
+  };
+
+  // Sem retryOn, só as falhas não mapeadas (defaultFailureType) são repetidas
+  const attempts = (): Promise<Result<T>> =>
+    retry
+      ? retryResult(attempt, retry, functionName, defaultFailureType, callSignal?.signal)
+      : attempt();
+
+  // Sem countOn, o circuito também só conta as falhas não mapeadas
+  const run = circuitBreaker
+    ? circuitBreaker.execute(
+        attempts,
+        error => {
+          debugLogger.logWrapper('ResultAsyncWrapper', false, functionName, error);
+          return Failure<T>(error, error.failureType, context, useCaseClass);
+        },
+        functionName,
+        defaultFailureType,
+      )
+    : attempts();
+
+  if (!callSignal) {
+    return run;
+  }
+
+  try {
+    // Não espera a função terminar depois que o sinal é abortado
+    return await raceAbort(run, callSignal.signal, reason => {
+      debugLogger.logWrapper('ResultAsyncWrapper', false, functionName, reason);
+      return Failure<T>(reason, reason.failureType, context, useCaseClass);
+    });
+  } finally {
+    callSignal.dispose();
   }
 };
 
@@ -222,10 +322,11 @@ export const ResultWrapValue = <T>(
   // Validar o valor
   const validationResult = validateValue(value, options);
   if (validationResult !== true) {
-    const error = new Error(
-      typeof validationResult === 'string' ? validationResult : 'Validation failed',
+    const { error, failureType: mappedFailureType } = validationFailure(
+      validationResult,
+      errorMappings,
+      defaultFailureType,
     );
-    const mappedFailureType = mapErrorToFailureType(error, errorMappings, defaultFailureType);
 
     // Log validation failure
     debugLogger.logWrapper('ResultWrapValue', false, 'validation', error);
@@ -272,10 +373,11 @@ export const ResultWrapValueAsync = async <T>(
     // Validar o valor resolvido
     const validationResult = validateValue(resolvedValue, options);
     if (validationResult !== true) {
-      const error = new Error(
-        typeof validationResult === 'string' ? validationResult : 'Validation failed',
+      const { error, failureType: mappedFailureType } = validationFailure(
+        validationResult,
+        errorMappings,
+        defaultFailureType,
       );
-      const mappedFailureType = mapErrorToFailureType(error, errorMappings, defaultFailureType);
 
       // Log validation failure
       const duration = Date.now() - startTime;
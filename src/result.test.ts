@@ -1,4 +1,4 @@
-import { Result, Success, Failure, ResultPromise } from './result';
+import { Result, Success, Failure, ResultPromise, ResultAggregateError } from './result';
 
 describe('Result Class', () => {
   describe('constructor', () => {
@@ -191,6 +191,475 @@ describe('Result Class', () => {
     });
   });
 
+  describe('typed error channel', () => {
+    class InsufficientFundsError extends Error {
+      constructor(readonly balance: number) {
+        super('Insufficient funds');
+      }
+    }
+
+    class AccountLockedError extends Error {
+      readonly lockedUntil = '2030-01-01';
+    }
+
+    it('should expose the declared error type through getError', () => {
+      const result: Result<number, InsufficientFundsError> = Failure(
+        new InsufficientFundsError(10),
+        'INSUFFICIENT_FUNDS',
+      );
+
+      expect(result.getError().balance).toBe(10);
+    });
+
+    it('should widen the error union when chaining with and_then', async () => {
+      const initial: Result<number, InsufficientFundsError> = Success(5);
+
+      const result: Result<string, InsufficientFundsError | AccountLockedError | Error> =
+        await initial.and_then(() =>
+          Failure<string, AccountLockedError>(new AccountLockedError('Locked'), 'LOCKED'),
+        );
+
+      const error = result.getError();
+      expect(error).toBeInstanceOf(AccountLockedError);
+      expect(error instanceof AccountLockedError && error.lockedUntil).toBe('2030-01-01');
+    });
+  });
+
+  describe('declared failure types', () => {
+    type LookupFailure = 'NOT_FOUND' | 'VALIDATION_ERROR';
+
+    const lookup = (id: string): Result<number, Error, LookupFailure> => {
+      if (!id) return Failure(new Error('Missing id'), 'VALIDATION_ERROR');
+      if (id === 'unknown') return Failure(new Error('Not found'), 'NOT_FOUND');
+      return Success(id.length);
+    };
+
+    it('should only accept declared failure types in onFailure', () => {
+      const result = lookup('unknown');
+      const callback = jest.fn();
+
+      result.onFailure(callback, 'NOT_FOUND');
+      // @ts-expect-error 'VALIDATON_ERROR' is not a declared failure type
+      result.onFailure(callback, 'VALIDATON_ERROR');
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require the failure type in onFailure once the failure types are declared', async () => {
+      const callback = jest.fn();
+
+      // @ts-expect-error no failure type would only match 'FAILURE', which is not declared
+      lookup('unknown').onFailure(callback);
+      // @ts-expect-error same for ResultPromise
+      await new ResultPromise(Promise.resolve(lookup('unknown'))).onFailure(callback);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should reject undeclared failure types when creating failures', () => {
+      const create = (): Result<number, Error, LookupFailure> =>
+        // @ts-expect-error 'NOT_FOUNDD' is not a declared failure type
+        Failure(new Error('Typo'), 'NOT_FOUNDD');
+
+      expect(create().getType()).toBe('NOT_FOUNDD');
+    });
+
+    it('should require the failure type when creating failures of a declared union', () => {
+      const create = (): Result<number, Error, LookupFailure> =>
+        // @ts-expect-error the 'FAILURE' default is not a declared failure type
+        Failure(new Error('Missing'));
+
+      expect(create().getType()).toBe('FAILURE');
+    });
+
+    it('should still be assignable to a Result with wider failure types', () => {
+      const narrow = lookup('unknown');
+      const wide: Result<number> = narrow;
+
+      expect(wide.getType()).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('match method', () => {
+    type LookupFailure = 'NOT_FOUND' | 'VALIDATION_ERROR';
+
+    it('should call the SUCCESS handler for successful results', () => {
+      const result: Result<number, Error, LookupFailure> = Success(5);
+
+      const output = result.match({
+        SUCCESS: value => `value: ${value}`,
+        NOT_FOUND: () => 'not found',
+        VALIDATION_ERROR: error => error.message,
+      });
+
+      expect(output).toBe('value: 5');
+    });
+
+    it('should call the handler registered for the failure type', () => {
+      const error = new Error('Missing id');
+      const result: Result<number, Error, LookupFailure> = Failure(error, 'VALIDATION_ERROR');
+      const handler = jest.fn().mockReturnValue('invalid');
+
+      const output = result.match({
+        SUCCESS: () => 'ok',
+        NOT_FOUND: () => 'not found',
+        VALIDATION_ERROR: handler,
+      });
+
+      expect(output).toBe('invalid');
+      expect(handler).toHaveBeenCalledWith(error, result);
+    });
+
+    it('should fail to compile when a declared failure type is not handled', () => {
+      const result: Result<number, Error, LookupFailure> = Failure(new Error('x'), 'NOT_FOUND');
+
+      const match = (): string =>
+        // @ts-expect-error VALIDATION_ERROR is not handled
+        result.match({
+          SUCCESS: () => 'ok',
+          NOT_FOUND: () => 'not found',
+        });
+
+      expect(match()).toBe('not found');
+    });
+
+    it('should use the _ fallback for the declared failure types left unhandled', () => {
+      const result: Result<number, Error, LookupFailure> = Failure(
+        new Error('Missing id'),
+        'VALIDATION_ERROR',
+      );
+
+      const output = result.match({
+        SUCCESS: () => 'ok',
+        NOT_FOUND: () => 'not found',
+        _: error => `fallback: ${error.message}`,
+      });
+
+      expect(output).toBe('fallback: Missing id');
+    });
+
+    it('should use the _ fallback when failure types are not declared', () => {
+      const result = Failure(new Error('Boom'), 'ANY_FAILURE');
+
+      const output = result.match({
+        SUCCESS: () => 'ok',
+        _: error => `fallback: ${error.message}`,
+      });
+
+      expect(output).toBe('fallback: Boom');
+    });
+
+    it('should throw when no handler matches the failure type at runtime', () => {
+      const result = Failure<number, Error, string>(new Error('Boom'), 'ANY_FAILURE') as Result<
+        number,
+        Error,
+        'NOT_FOUND'
+      >;
+
+      expect(() => result.match({ SUCCESS: () => 'ok', NOT_FOUND: () => 'missing' })).toThrow(
+        "No match handler registered for failure type 'ANY_FAILURE'",
+      );
+    });
+  });
+
+  describe('or_else method', () => {
+    it('should not execute the callback when result is successful', async () => {
+      const initialResult = Success(1);
+      const callback = jest.fn();
+
+      const result = await initialResult.or_else(callback);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(result).toBe(initialResult);
+    });
+
+    it('should replace a failure with the callback result merging context', async () => {
+      const error = new Error('Cache miss');
+      const initialResult = Failure(error, 'NOT_FOUND', { cache: 'miss' }, 'CacheUseCase');
+      const callback = jest
+        .fn()
+        .mockResolvedValue(Success(42, { database: 'hit' }, 'DatabaseUseCase'));
+
+      const result = await initialResult.or_else(callback);
+
+      expect(callback).toHaveBeenCalledWith(error, initialResult);
+      expect(result.getValue()).toBe(42);
+      expect(result.useCaseClass).toBe('DatabaseUseCase');
+      expect(result.context).toEqual({ cache: 'miss', database: 'hit' });
+    });
+
+    it('should handle errors thrown in callback', async () => {
+      const error = new Error('Callback error');
+      const result = await Failure(new Error('Original')).or_else(() => {
+        throw error;
+      });
+
+      expect(result.getType()).toBe('UNEXPECTED_ERROR');
+      expect(result.getError()).toBe(error);
+      expect(result.context).toHaveProperty('rawError', error);
+    });
+  });
+
+  describe('map method', () => {
+    it('should transform the success value keeping context and useCaseClass', () => {
+      const result = Success(2, { step: 'one' }, 'TestUseCase').map(value => value * 10);
+
+      expect(result.getValue()).toBe(20);
+      expect(result.context).toEqual({ step: 'one' });
+      expect(result.useCaseClass).toBe('TestUseCase');
+    });
+
+    it('should not execute the callback when result is a failure', () => {
+      const initialResult = Failure<number>(new Error('Test error'));
+      const callback = jest.fn();
+
+      const result = initialResult.map(callback);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(result).toBe(initialResult);
+    });
+
+    it('should turn errors thrown in callback into UNEXPECTED_ERROR failures', () => {
+      const result = Success(2, { step: 'one' }).map(() => {
+        throw 'string error';
+      });
+
+      expect(result.getType()).toBe('UNEXPECTED_ERROR');
+      expect(result.getError().message).toBe('string error');
+      expect(result.context).toEqual({ step: 'one', rawError: 'string error' });
+    });
+  });
+
+  describe('mapError method', () => {
+    class DomainError extends Error {
+      constructor(readonly original: Error) {
+        super(`Domain: ${original.message}`);
+      }
+    }
+
+    it('should transform the error keeping failure type and context', () => {
+      const original = new Error('Boom');
+      const result = Failure(original, 'NOT_FOUND', { step: 'one' }, 'TestUseCase').mapError(
+        error => new DomainError(error),
+      );
+
+      const error = result.getError();
+      expect(error).toBeInstanceOf(DomainError);
+      expect(error instanceof DomainError && error.original).toBe(original);
+      expect(result.getType()).toBe('NOT_FOUND');
+      expect(result.context).toEqual({ step: 'one' });
+      expect(result.useCaseClass).toBe('TestUseCase');
+    });
+
+    it('should not execute the callback when result is successful', () => {
+      const callback = jest.fn();
+
+      const result = Success(1).mapError(callback);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(result.getValue()).toBe(1);
+    });
+  });
+
+  describe('mapFailureType method', () => {
+    it('should rename the failure type keeping error and context', () => {
+      const error = new Error('Missing');
+      const result = Failure(error, 'NOT_FOUND', { step: 'one' }).mapFailureType(type =>
+        type === 'NOT_FOUND' ? 'USER_NOT_FOUND' : type,
+      );
+
+      expect(result.getType()).toBe('USER_NOT_FOUND');
+      expect(result.getError()).toBe(error);
+      expect(result.context).toEqual({ step: 'one' });
+    });
+
+    it('should keep successes untouched', () => {
+      const result = Success(1).mapFailureType(() => 'OTHER');
+
+      expect(result.getType()).toBe('SUCCESS');
+    });
+  });
+
+  describe('recover method', () => {
+    type LookupFailure = 'NOT_FOUND' | 'TIMEOUT';
+
+    it('should turn a handled failure type into a success', () => {
+      const failure: Result<string, Error, LookupFailure> = Failure(
+        new Error('Missing'),
+        'NOT_FOUND',
+        { lookup: 'cache' },
+        'CacheUseCase',
+      );
+
+      const result = failure.recover({ NOT_FOUND: () => 'default' });
+
+      expect(result.isSuccess()).toBe(true);
+      expect(result.getValue()).toBe('default');
+      expect(result.context).toEqual({ lookup: 'cache' });
+      expect(result.useCaseClass).toBe('CacheUseCase');
+    });
+
+    it('should pass unhandled failure types through', () => {
+      const failure: Result<string, Error, LookupFailure> = Failure(new Error('Slow'), 'TIMEOUT');
+
+      const result = failure.recover({ NOT_FOUND: () => 'default' });
+
+      expect(result).toBe(failure);
+      expect(result.getType()).toBe('TIMEOUT');
+    });
+  });
+
+  describe('route method', () => {
+    type LookupFailure = 'NOT_FOUND' | 'TIMEOUT';
+
+    const lookupFailure = (type: LookupFailure): Result<string, Error, LookupFailure> =>
+      Failure(new Error(type), type, { lookup: 'cache' }, 'CacheUseCase');
+
+    it('should replace a routed failure with the Result of its handler', async () => {
+      const result = await lookupFailure('NOT_FOUND').route({
+        NOT_FOUND: () => Success('from db', { lookup: 'db' }, 'DatabaseUseCase'),
+      });
+
+      expect(result.getValue()).toBe('from db');
+      expect(result.useCaseClass).toBe('DatabaseUseCase');
+      expect(result.context).toEqual({
+        lookup: 'db',
+        routes: [{ failureType: 'NOT_FOUND', branch: 'DatabaseUseCase' }],
+      });
+    });
+
+    it('should turn plain handler values into successes', async () => {
+      const result = await lookupFailure('TIMEOUT').route({ TIMEOUT: async () => 'stale' });
+
+      expect(result.getValue()).toBe('stale');
+      expect(result.useCaseClass).toBe('CacheUseCase');
+      expect(result.context.routes).toEqual([{ failureType: 'TIMEOUT', branch: 'recovery' }]);
+    });
+
+    it('should pass unmatched failures and successes through', async () => {
+      const failure = lookupFailure('TIMEOUT');
+      const success = Success<string, Error, LookupFailure>('hit');
+      const routes = { NOT_FOUND: (): string => 'default' };
+
+      expect(await failure.route(routes)).toBe(failure);
+      expect(await success.route(routes)).toBe(success);
+    });
+
+    it('should route failures of the handler Result again when chained', async () => {
+      const result = await lookupFailure('NOT_FOUND')
+        .route({ NOT_FOUND: () => Failure(new Error('Slow db'), 'TIMEOUT', {}, 'DatabaseUseCase') })
+        .then(routed => routed.route({ TIMEOUT: () => 'stale' }));
+
+      expect(result.getValue()).toBe('stale');
+      expect(result.context.routes).toEqual([
+        { failureType: 'NOT_FOUND', branch: 'DatabaseUseCase' },
+        { failureType: 'TIMEOUT', branch: 'recovery' },
+      ]);
+    });
+
+    it('should turn a throwing handler into an UNEXPECTED_ERROR failure', async () => {
+      const result = await lookupFailure('NOT_FOUND').route({
+        NOT_FOUND: () => {
+          throw new Error('Db down');
+        },
+      });
+
+      expect(result.getType()).toBe('UNEXPECTED_ERROR');
+      expect(result.getError().message).toBe('Db down');
+    });
+  });
+
+  describe('unwrapOr and unwrapOrElse methods', () => {
+    it('should return the success value', () => {
+      expect(Success(5).unwrapOr(0)).toBe(5);
+      expect(Success(5).unwrapOrElse(() => 0)).toBe(5);
+    });
+
+    it('should return the fallback for failures', () => {
+      const failure = Failure<number>(new Error('Boom'));
+
+      expect(failure.unwrapOr(0)).toBe(0);
+      expect(failure.unwrapOrElse(error => error.message.length)).toBe(4);
+    });
+  });
+
+  describe('tap and tapError methods', () => {
+    it('should run tap only for successes and return the same result', () => {
+      const success = Success(5);
+      const failure = Failure<number>(new Error('Boom'));
+      const callback = jest.fn();
+
+      expect(success.tap(callback)).toBe(success);
+      expect(failure.tap(callback)).toBe(failure);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(5, success);
+    });
+
+    it('should run tapError only for failures and return the same result', () => {
+      const error = new Error('Boom');
+      const failure = Failure<number>(error);
+      const callback = jest.fn();
+
+      expect(Success(5).tapError(callback).getValue()).toBe(5);
+      expect(failure.tapError(callback)).toBe(failure);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(error, failure);
+    });
+
+    it('should turn errors thrown in tap into UNEXPECTED_ERROR failures', () => {
+      const error = new Error('Side effect failed');
+      const result = Success(5).tap(() => {
+        throw error;
+      });
+
+      expect(result.getType()).toBe('UNEXPECTED_ERROR');
+      expect(result.getError()).toBe(error);
+    });
+  });
+
+  describe('flatten method', () => {
+    it('should unwrap a nested Result merging contexts', () => {
+      const inner = Success(5, { inner: 'value' }, 'InnerUseCase');
+      const outer = Success(inner, { outer: 'value' }, 'OuterUseCase');
+
+      const result = outer.flatten();
+
+      expect(result.getValue()).toBe(5);
+      expect(result.useCaseClass).toBe('InnerUseCase');
+      expect(result.context).toEqual({ outer: 'value', inner: 'value' });
+    });
+
+    it('should keep the inner failure', () => {
+      const error = new Error('Inner failure');
+      const outer = Success(Failure<number>(error, 'NOT_FOUND'));
+
+      const result = outer.flatten();
+
+      expect(result.getType()).toBe('NOT_FOUND');
+      expect(result.getError()).toBe(error);
+    });
+
+    it('should keep the outer failure', () => {
+      const outer = Failure<Result<number>>(new Error('Outer failure'));
+
+      expect(outer.flatten().getError().message).toBe('Outer failure');
+    });
+  });
+
+  describe('withContext method', () => {
+    it('should return a copy with the extra context entries', () => {
+      const original = Failure(new Error('Nope'), 'NOT_FOUND', { a: 1, b: 1 }, 'FindUseCase');
+
+      const result = original.withContext({ b: 2, traceId: 't1' });
+
+      expect(result).not.toBe(original);
+      expect(result.context).toEqual({ a: 1, b: 2, traceId: 't1' });
+      expect(result.getType()).toBe('NOT_FOUND');
+      expect(result.useCaseClass).toBe('FindUseCase');
+      expect(original.context).toEqual({ a: 1, b: 1 });
+    });
+  });
+
   describe('execUseCase method', () => {
     it('should call and_then method', async () => {
       const result = Success({ value: 'test' });
@@ -272,6 +741,254 @@ describe('Result Class', () => {
     });
   });
 
+  describe('static combinators', () => {
+    const delayed = <T>(result: Result<T>, ms: number): ResultPromise<T> =>
+      new ResultPromise(new Promise(resolve => setTimeout(() => resolve(result), ms)));
+
+    describe('combine', () => {
+      it('should combine a tuple of successes merging contexts', () => {
+        const result = Result.combine([
+          Success(1, { first: 'one' }),
+          Success('two', { second: 'two' }),
+        ]);
+
+        expect(result.isSuccess()).toBe(true);
+        expect(result.getValue()).toEqual([1, 'two']);
+        expect(result.context).toEqual({ first: 'one', second: 'two' });
+      });
+
+      it('should combine a record of successes', () => {
+        const result = Result.combine({ user: Success({ id: 1 }), count: Success(3) });
+
+        expect(result.getValue()).toEqual({ user: { id: 1 }, count: 3 });
+      });
+
+      it('should return the first failure in input order', () => {
+        const error = new Error('First');
+        const result = Result.combine([
+          Success(1, { first: 'one' }),
+          Failure(error, 'NOT_FOUND', { failed: true }, 'FindUseCase'),
+          Failure(new Error('Second'), 'TIMEOUT'),
+        ]);
+
+        expect(result.getType()).toBe('NOT_FOUND');
+        expect(result.getError()).toBe(error);
+        expect(result.useCaseClass).toBe('FindUseCase');
+        expect(result.context).toEqual({ first: 'one', failed: true });
+      });
+    });
+
+    describe('all', () => {
+      it('should wait for every input and keep the tuple order', async () => {
+        const result = await Result.all([
+          delayed(Success(1, { slow: true }), 10),
+          Success('fast', { fast: true }),
+          Promise.resolve(Success(true)),
+        ]);
+
+        expect(result.getValue()).toEqual([1, 'fast', true]);
+        expect(result.context).toEqual({ slow: true, fast: true });
+      });
+
+      it('should fail fast without waiting for slower inputs', async () => {
+        const error = new Error('Fast failure');
+        const start = Date.now();
+
+        const result = await Result.all({
+          slow: delayed(Success(1), 200),
+          fast: Failure(error, 'VALIDATION_ERROR'),
+        });
+
+        expect(Date.now() - start).toBeLessThan(150);
+        expect(result.getType()).toBe('VALIDATION_ERROR');
+        expect(result.getError()).toBe(error);
+      });
+
+      it('should resolve an empty input to an empty success', async () => {
+        const result = await Result.all([]);
+
+        expect(result.isSuccess()).toBe(true);
+        expect(result.getValue()).toEqual([]);
+      });
+
+      it('should turn rejected inputs into UNEXPECTED_ERROR failures', async () => {
+        const result = await Result.all([Promise.reject(new Error('Rejected')), Success(1)]);
+
+        expect(result.getType()).toBe('UNEXPECTED_ERROR');
+        expect(result.getError().message).toBe('Rejected');
+      });
+    });
+
+    describe('allSettled', () => {
+      it('should combine successes like all', async () => {
+        const result = await Result.allSettled({ a: Success(1), b: delayed(Success(2), 5) });
+
+        expect(result.getValue()).toEqual({ a: 1, b: 2 });
+      });
+
+      it('should collect every failure', async () => {
+        const result = await Result.allSettled({
+          name: Failure(new Error('Name is required'), 'VALIDATION_ERROR', { name: 'checked' }),
+          email: Success('user@test.com', { email: 'checked' }),
+          age: delayed(Failure(new Error('Age is invalid'), 'RANGE_ERROR'), 5),
+        });
+
+        expect(result.getType()).toBe('VALIDATION_ERROR');
+        expect(result.getError()).toBeInstanceOf(ResultAggregateError);
+        expect(result.getError().failures).toEqual([
+          {
+            key: 'name',
+            failureType: 'VALIDATION_ERROR',
+            error: expect.objectContaining({ message: 'Name is required' }),
+          },
+          {
+            key: 'age',
+            failureType: 'RANGE_ERROR',
+            error: expect.objectContaining({ message: 'Age is invalid' }),
+          },
+        ]);
+        expect(result.getError().message).toBe('[name] Name is required; [age] Age is invalid');
+        expect(result.context).toEqual({ name: 'checked', email: 'checked' });
+      });
+    });
+
+    describe('any', () => {
+      it('should resolve to the first success', async () => {
+        const result = await Result.any([
+          delayed(Success('slow'), 20),
+          Failure(new Error('Miss'), 'NOT_FOUND', { cache: 'miss' }),
+          delayed(Success('fast', { source: 'replica' }), 5),
+        ]);
+
+        expect(result.getValue()).toBe('fast');
+        expect(result.context).toEqual({ cache: 'miss', source: 'replica' });
+      });
+
+      it('should fail with every error when all inputs fail', async () => {
+        const result = await Result.any([
+          Failure(new Error('Miss'), 'NOT_FOUND'),
+          delayed(Failure(new Error('Slow'), 'TIMEOUT'), 5),
+        ]);
+
+        expect(result.getType()).toBe('NOT_FOUND');
+        expect(result.getError().failures.map(failure => failure.failureType)).toEqual([
+          'NOT_FOUND',
+          'TIMEOUT',
+        ]);
+      });
+
+      it('should fail with a failure type of its signature when there are no inputs', async () => {
+        const result = await Result.any([]);
+
+        expect(result.getType()).toBe('UNEXPECTED_ERROR');
+        expect(result.getError()).toBeInstanceOf(ResultAggregateError);
+        expect(result.getError().failures).toEqual([]);
+      });
+    });
+  });
+
+  describe('gen method', () => {
+    const findUser = (id: number): ResultPromise<{ id: number; name: string }> =>
+      new ResultPromise(
+        Promise.resolve(
+          id > 0
+            ? Success({ id, name: 'Ana' }, { FindUser: 'context' }, 'FindUser')
+            : Failure(new Error('User not found'), 'NOT_FOUND', { FindUser: 'missed' }, 'FindUser'),
+        ),
+      );
+
+    const listOrders = (userId: number): Result<string[]> =>
+      Success([`order-${userId}`], { ListOrders: 'context' }, 'ListOrders');
+
+    it('should run steps in sequence handing back success values', async () => {
+      const result = await Result.gen(function* () {
+        const user = yield* findUser(1);
+        const orders = yield* listOrders(user.id);
+        return { name: user.name, orders };
+      });
+
+      expect(result.isSuccess()).toBe(true);
+      expect(result.getValue()).toEqual({ name: 'Ana', orders: ['order-1'] });
+    });
+
+    it('should merge contexts and keep the last useCaseClass like and_then', async () => {
+      const result = await Result.gen(function* () {
+        const user = yield* findUser(1);
+        return yield* listOrders(user.id);
+      });
+
+      expect(result.context).toEqual({ FindUser: 'context', ListOrders: 'context' });
+      expect(result.useCaseClass).toBe('ListOrders');
+    });
+
+    it('should short-circuit on the first failure', async () => {
+      const afterFailure = jest.fn();
+      const cleanup = jest.fn();
+
+      const result = await Result.gen(function* () {
+        try {
+          yield* findUser(1);
+          const user = yield* findUser(0);
+          afterFailure(user);
+          return user;
+        } finally {
+          cleanup();
+        }
+      });
+
+      expect(afterFailure).not.toHaveBeenCalled();
+      expect(cleanup).toHaveBeenCalled();
+      expect(result.getType()).toBe('NOT_FOUND');
+      expect(result.getError().message).toBe('User not found');
+      expect(result.useCaseClass).toBe('FindUser');
+      expect(result.context).toEqual({ FindUser: 'missed' });
+    });
+
+    it('should close the generator when a yielded ResultPromise rejects', async () => {
+      const error = new Error('Connection lost');
+      const cleanup = jest.fn();
+
+      const result = await Result.gen(function* () {
+        try {
+          yield* findUser(1);
+          return yield* new ResultPromise<string>(Promise.reject(error));
+        } finally {
+          cleanup();
+        }
+      });
+
+      expect(cleanup).toHaveBeenCalled();
+      expect(result.getType()).toBe('UNEXPECTED_ERROR');
+      expect(result.getError()).toBe(error);
+      expect(result.context).toEqual({ FindUser: 'context', rawError: error });
+      expect(result.useCaseClass).toBe('FindUser');
+    });
+
+    it('should support async generators', async () => {
+      const result = await Result.gen(async function* () {
+        const user = yield* findUser(2);
+        const suffix = await Promise.resolve('!');
+        return Success(`${user.name}${suffix}`, { greeting: true });
+      });
+
+      expect(result.getValue()).toBe('Ana!');
+      expect(result.context).toEqual({ FindUser: 'context', greeting: true });
+    });
+
+    it('should turn exceptions into UNEXPECTED_ERROR failures', async () => {
+      const error = new Error('Generator error');
+
+      const result = await Result.gen(function* () {
+        yield* findUser(1);
+        throw error;
+      });
+
+      expect(result.getType()).toBe('UNEXPECTED_ERROR');
+      expect(result.getError()).toBe(error);
+      expect(result.context).toEqual({ FindUser: 'context', rawError: error });
+    });
+  });
+
   describe('ResultPromise class', () => {
     describe('constructor', () => {
       it('should create a ResultPromise from a Promise<Result>', async () => {
@@ -343,12 +1060,44 @@ describe('Result Class', () => {
         const callback1 = jest.fn();
         const callback2 = jest.fn();
 
-        resultPromise.onSuccess(callback1).onSuccess(callback2);
+        await resultPromise.onSuccess(callback1).onSuccess(callback2);
 
-        await resultPromise.toResult();
         expect(callback1).toHaveBeenCalled();
         expect(callback2).toHaveBeenCalled();
       });
+
+      it('should run chained callbacks in order, waiting for async callbacks', async () => {
+        const calls: string[] = [];
+        const resultPromise = new ResultPromise(Promise.resolve(Success(1)));
+
+        await resultPromise
+          .onSuccess(async () => {
+            await new Promise(resolve => setTimeout(resolve, 5));
+            calls.push('first');
+          })
+          .onSuccess(() => {
+            calls.push('second');
+          });
+
+        expect(calls).toEqual(['first', 'second']);
+      });
+
+      it('should turn errors thrown in the callback into UNEXPECTED_ERROR failures', async () => {
+        const error = new Error('Callback error');
+        const resultPromise = new ResultPromise(Promise.resolve(Success(1, { step: 'one' })));
+        const nextCallback = jest.fn();
+
+        const result = await resultPromise
+          .onSuccess(() => {
+            throw error;
+          })
+          .onSuccess(nextCallback);
+
+        expect(nextCallback).not.toHaveBeenCalled();
+        expect(result.getType()).toBe('UNEXPECTED_ERROR');
+        expect(result.getError()).toBe(error);
+        expect(result.context).toEqual({ step: 'one', rawError: error });
+      });
     });
 
     describe('onFailure method', () => {
@@ -376,6 +1125,102 @@ describe('Result Class', () => {
       });
     });
 
+    describe('combinators', () => {
+      it('should sequence map, tap and mapError on the resolved Result', async () => {
+        const calls: string[] = [];
+        const resultPromise = new ResultPromise(Promise.resolve(Success(2, { step: 'one' })));
+
+        const result = await resultPromise
+          .map(value => value * 10)
+          .tap(value => {
+            calls.push(`tap ${value}`);
+          })
+          .tapError(() => {
+            calls.push('tapError');
+          })
+          .mapError(error => new Error(`wrapped: ${error.message}`));
+
+        expect(calls).toEqual(['tap 20']);
+        expect(result.getValue()).toBe(20);
+        expect(result.context).toEqual({ step: 'one' });
+      });
+
+      it('should recover failures and chain with or_else', async () => {
+        const failure = new ResultPromise<number, Error, 'NOT_FOUND' | 'TIMEOUT'>(
+          Promise.resolve(Failure(new Error('Slow'), 'TIMEOUT')),
+        );
+
+        const result = await failure
+          .recover({ NOT_FOUND: () => 0 })
+          .mapFailureType(type => (type === 'TIMEOUT' ? 'RETRYABLE' : type))
+          .or_else(error => Success(error.message.length));
+
+        expect(result.isSuccess()).toBe(true);
+        expect(result.getValue()).toBe(4);
+      });
+
+      it('should route failures by type', async () => {
+        const failure = new ResultPromise<number, Error, 'NOT_FOUND' | 'TIMEOUT'>(
+          Promise.resolve(Failure(new Error('Slow'), 'TIMEOUT')),
+        );
+
+        const result = await failure
+          .route({ NOT_FOUND: () => Success(1) })
+          .route({ TIMEOUT: () => Success(2, {}, 'StaleUseCase') });
+
+        expect(result.getValue()).toBe(2);
+        expect(result.context.routes).toEqual([{ failureType: 'TIMEOUT', branch: 'StaleUseCase' }]);
+      });
+
+      it('should flatten nested Results', async () => {
+        const resultPromise = new ResultPromise(
+          Promise.resolve(Success(Success(5, { inner: true }), { outer: true })),
+        );
+
+        const result = await resultPromise.flatten();
+
+        expect(result.getValue()).toBe(5);
+        expect(result.context).toEqual({ outer: true, inner: true });
+      });
+
+      it('should unwrap values with a fallback', async () => {
+        const success = new ResultPromise(Promise.resolve(Success(5)));
+        const failure = new ResultPromise(Promise.resolve(Failure<number>(new Error('Boom'))));
+
+        await expect(success.unwrapOr(0)).resolves.toBe(5);
+        await expect(failure.unwrapOr(0)).resolves.toBe(0);
+        await expect(failure.unwrapOrElse(error => error.message)).resolves.toBe('Boom');
+      });
+
+      it('should turn errors thrown in tapError into UNEXPECTED_ERROR failures', async () => {
+        const failure = new ResultPromise(
+          Promise.resolve(Failure<number>(new Error('Original'), 'NOT_FOUND')),
+        );
+
+        const result = await failure.tapError(() => {
+          throw 'string error';
+        });
+
+        expect(result.getType()).toBe('UNEXPECTED_ERROR');
+        expect(result.getError().message).toBe('string error');
+      });
+    });
+
+    describe('match method', () => {
+      it('should resolve to the value returned by the matching handler', async () => {
+        const resultPromise = new ResultPromise<number, Error, 'NOT_FOUND'>(
+          Promise.resolve(Failure(new Error('Missing'), 'NOT_FOUND')),
+        );
+
+        const output = await resultPromise.match({
+          SUCCESS: value => value,
+          NOT_FOUND: () => -1,
+        });
+
+        expect(output).toBe(-1);
+      });
+    });
+
     describe('toResult method', () => {
       it('should resolve to the Result', async () => {
         const originalResult = Success({ value: 'test' });
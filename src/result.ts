@@ -1,26 +1,409 @@
-export type ResultProps<T> = {
-  resultType: string;
+import { CancelledError } from './errors';
+import {
+  deserializeResult,
+  registerErrorClass,
+  type SerializedResult,
+  serializeResult,
+} from './serialization';
+
+/**
+ * Failure type assigned when an operation throws instead of returning a Result.
+ */
+export type UnexpectedFailureType = 'UNEXPECTED_ERROR';
+
+export type ResultProps<T, E extends Error = Error, F extends string = string> = {
+  resultType: 'SUCCESS' | F;
   isSuccess: boolean;
-  error?: Error;
+  error?: E;
   data?: T;
   context?: Record<string, any>;
   useCaseClass?: string;
 };
 
-export class Result<T> {
-  readonly resultType: string;
+/**
+ * Handlers accepted by `match()`: one for `SUCCESS` plus one per declared failure type, or
+ * a `_` fallback for the failure types left unhandled. When the failure types are not
+ * declared (plain `string`), the `_` fallback is required and any failure type may still
+ * be handled explicitly.
+ */
+export type MatchHandlers<T, E extends Error, F extends string, R> = {
+  SUCCESS: (data: T, res: Result<T, E, F>) => R;
+} & (string extends F
+  ? {
+      _: (error: E, res: Result<T, E, F>) => R;
+      [failureType: string]:
+        | ((error: E, res: Result<T, E, F>) => R)
+        | ((data: T, res: Result<T, E, F>) => R);
+    }
+  :
+      | { [K in F]: (error: E, res: Result<T, E, F>) => R }
+      | ({ [K in F]?: (error: E, res: Result<T, E, F>) => R } & {
+          _: (error: E, res: Result<T, E, F>) => R;
+        }));
+
+/**
+ * Failure type argument of `onFailure()`: optional (defaulting to `FAILURE`) while the
+ * failure types are not declared, required once they are.
+ */
+export type OnFailureTypeArgument<F extends string> = string extends F
+  ? [failureType?: F]
+  : [failureType: F];
+
+/**
+ * Extracts the declared failure types from a Result or ResultPromise type.
+ */
+export type FailureTypeOf<Res> =
+  Res extends Result<any, any, infer F>
+    ? F
+    : Res extends PromiseLike<Result<any, any, infer F>>
+      ? F
+      : never;
+
+/**
+ * Extracts the success value type from a Result or ResultPromise type.
+ */
+export type ValueTypeOf<Res> =
+  Res extends Result<infer T, any, any>
+    ? T
+    : Res extends PromiseLike<Result<infer T, any, any>>
+      ? T
+      : never;
+
+/**
+ * Extracts the error type from a Result or ResultPromise type.
+ */
+export type ErrorTypeOf<Res> =
+  Res extends Result<any, infer E, any>
+    ? E
+    : Res extends PromiseLike<Result<any, infer E, any>>
+      ? E
+      : never;
+
+/**
+ * Handlers of route(), keyed by failure type. A handler returns a Result (for instance the
+ * one of another use case) or a plain recovery value, possibly through a promise.
+ */
+export type RouteHandlers<T, E extends Error, F extends string> = {
+  [K in F]?: (error: E, res: Result<T, E, F>) => unknown;
+};
+
+type RouteOutcome<H> = H extends (...args: any[]) => infer O ? Awaited<O> : never;
+
+/**
+ * Success value of a route handler's outcome.
+ */
+export type RoutedValue<H> =
+  RouteOutcome<H> extends infer O ? (O extends Result<infer U, any, any> ? U : O) : never;
+
+/**
+ * Error of a route handler's outcome.
+ */
+export type RoutedError<H> =
+  RouteOutcome<H> extends infer O ? (O extends Result<any, infer E, any> ? E : never) : never;
+
+/**
+ * Failure types of a route handler's outcome.
+ */
+export type RoutedFailureType<H> =
+  RouteOutcome<H> extends infer O ? (O extends Result<any, any, infer F> ? F : never) : never;
+
+/**
+ * Appended to `context.routes` each time route() handles a failure: the failure type that
+ * matched and the branch that ran, i.e. the use case class of the handler's Result, or
+ * `recovery` for plain values.
+ */
+export type RouteRecord = {
+  failureType: string;
+  branch: string;
+};
+
+/**
+ * Anything the static combinators accept: a Result, a ResultPromise or a Promise of a Result.
+ */
+export type ResultLike = Result<any, any, any> | PromiseLike<Result<any, any, any>>;
+
+/**
+ * Inputs of the static combinators: a tuple/array or a record of ResultLike values.
+ */
+export type ResultInputs = readonly ResultLike[] | { readonly [key: string]: ResultLike };
+
+type InputMember<I> = I extends readonly unknown[] ? I[number] : I[keyof I];
+
+/**
+ * Success value of a combination: the same tuple or record shape with each Result unwrapped.
+ */
+export type CombinedValues<I> = { -readonly [K in keyof I]: ValueTypeOf<I[K]> };
+
+/**
+ * Error of a failed all()/allSettled()/any() call. `failures` lists every failed input
+ * (only the first one for all()) with the key or index it was given under.
+ */
+export class ResultAggregateError<E extends Error = Error> extends Error {
+  readonly failures: { key: string | number; failureType: string; error: E }[];
+
+  constructor(failures: { key: string | number; failureType: string; error: E }[]) {
+    super(failures.map(failure => `[${failure.key}] ${failure.error.message}`).join('; '));
+    this.name = 'ResultAggregateError';
+    this.failures = failures;
+  }
+}
+
+registerErrorClass(ResultAggregateError);
+
+/**
+ * Outcome of an operation: either a success carrying data of type `T` or a failure
+ * carrying an error of type `E` tagged with one of the failure types `F`. Both default
+ * to their widest form, so `Result<T>` keeps working for code that declares neither.
+ */
+export class Result<T, E extends Error = Error, F extends string = string> {
+  readonly resultType: 'SUCCESS' | F;
   readonly data: T;
-  readonly error: Error;
+  readonly error: E;
   readonly context: Record<string, any>;
   readonly useCaseClass: string;
 
   private readonly _isSuccess: boolean;
 
-  constructor({ resultType, isSuccess, error, data, context, useCaseClass }: ResultProps<T>) {
+  /**
+   * Combines already available Results. Returns the first failure (in input order) or a
+   * success holding every value in the same tuple or record shape. Contexts are merged in
+   * input order, the same way and_then() does.
+   *
+   * @param inputs Tuple, array or record of Results
+   * @returns The combined Result
+   */
+  static combine<
+    const I extends readonly Result<any, any, any>[] | Record<string, Result<any, any, any>>,
+  >(
+    inputs: I,
+  ): Result<CombinedValues<I>, ErrorTypeOf<InputMember<I>>, FailureTypeOf<InputMember<I>>> {
+    return combineSettled(entriesOf(inputs) as SettledEntry[], inputs, false) as Result<
+      CombinedValues<I>,
+      ErrorTypeOf<InputMember<I>>,
+      FailureTypeOf<InputMember<I>>
+    >;
+  }
+
+  /**
+   * Waits for every input and combines them, failing fast: the first failure to resolve
+   * settles the combination without waiting for the remaining inputs.
+   *
+   * @param inputs Tuple, array or record of Results or ResultPromises
+   * @returns A ResultPromise of the combined values
+   */
+  static all<const I extends ResultInputs>(
+    inputs: I,
+  ): ResultPromise<
+    CombinedValues<I>,
+    ErrorTypeOf<InputMember<I>> | Error,
+    FailureTypeOf<InputMember<I>> | UnexpectedFailureType
+  > {
+    const entries = entriesOf(inputs);
+
+    const promise = new Promise<Result<any, any, any>>(resolve => {
+      const settled: Result<any, any, any>[] = [];
+      let pending = entries.length;
+
+      if (pending === 0) {
+        resolve(combineSettled([], inputs, false));
+      }
+
+      entries.forEach(([, input], index) => {
+        settle(input).then(result => {
+          if (pending === 0) return;
+
+          settled[index] = result;
+
+          if (result.isFailure()) {
+            pending = 0;
+            resolve(
+              Failure(
+                result.getError(),
+                result.getType(),
+                mergeContexts(settled.filter(Boolean)),
+                result.useCaseClass,
+              ),
+            );
+            return;
+          }
+
+          pending -= 1;
+          if (pending === 0) {
+            resolve(
+              combineSettled(
+                entries.map(([key], i) => [key, settled[i]]),
+                inputs,
+                false,
+              ),
+            );
+          }
+        });
+      });
+    });
+
+    return new ResultPromise(promise);
+  }
+
+  /**
+   * Waits for every input and combines them, collecting every failure. Fails with a
+   * ResultAggregateError listing all failed inputs, tagged with the first failure's type.
+   *
+   * @param inputs Tuple, array or record of Results or ResultPromises
+   * @returns A ResultPromise of the combined values
+   */
+  static allSettled<const I extends ResultInputs>(
+    inputs: I,
+  ): ResultPromise<
+    CombinedValues<I>,
+    ResultAggregateError<ErrorTypeOf<InputMember<I>> | Error>,
+    FailureTypeOf<InputMember<I>> | UnexpectedFailureType
+  > {
+    const entries = entriesOf(inputs);
+    const promise = Promise.all(entries.map(([, input]) => settle(input))).then(results =>
+      combineSettled(
+        entries.map(([key], index) => [key, results[index]]),
+        inputs,
+        true,
+      ),
+    );
+
+    return new ResultPromise(promise);
+  }
+
+  /**
+   * Resolves to the first input that succeeds. When every input fails, fails with a
+   * ResultAggregateError listing all failures, tagged with the first failure's type.
+   * Empty inputs fail with an empty ResultAggregateError as `UNEXPECTED_ERROR`.
+   *
+   * @param inputs Tuple, array or record of Results or ResultPromises
+   * @returns A ResultPromise of the first successful value
+   */
+  static any<const I extends ResultInputs>(
+    inputs: I,
+  ): ResultPromise<
+    ValueTypeOf<InputMember<I>>,
+    ResultAggregateError<ErrorTypeOf<InputMember<I>> | Error>,
+    FailureTypeOf<InputMember<I>> | UnexpectedFailureType
+  > {
+    const entries = entriesOf(inputs);
+
+    const promise = new Promise<Result<any, any, any>>(resolve => {
+      const settled: Result<any, any, any>[] = [];
+      let pending = entries.length;
+
+      if (pending === 0) {
+        resolve(Failure(new ResultAggregateError([]), 'UNEXPECTED_ERROR'));
+      }
+
+      entries.forEach(([, input], index) => {
+        settle(input).then(result => {
+          if (pending === 0) return;
+
+          settled[index] = result;
+
+          if (result.isSuccess()) {
+            pending = 0;
+            resolve(
+              Success(
+                result.getValue(),
+                mergeContexts(settled.filter(Boolean)),
+                result.useCaseClass,
+              ),
+            );
+            return;
+          }
+
+          pending -= 1;
+          if (pending === 0) {
+            resolve(aggregateFailure(entries.map(([key], i) => [key, settled[i]])));
+          }
+        });
+      });
+    });
+
+    return new ResultPromise(promise);
+  }
+
+  /**
+   * Runs sequential steps written as a generator (do-notation). Each `yield*` on a Result
+   * or ResultPromise hands back its success value; the first failure stops the generator
+   * and becomes the outcome. Contexts are merged and useCaseClass is taken from the last
+   * step, exactly as and_then() does. Async generators are supported as well.
+   *
+   * @example
+   * Result.gen(function* () {
+   *   const user = yield* FindUser.call(id);
+   *   const orders = yield* ListOrders.call({ userId: user.id });
+   *   return { user, orders };
+   * });
+   *
+   * @param body Generator function yielding Results or ResultPromises
+   * @returns A ResultPromise of the generator's return value
+   */
+  static gen<Y extends ResultLike, R>(
+    body: () => Generator<Y, R, any> | AsyncGenerator<Y, R, any>,
+  ): ResultPromise<
+    R extends Result<infer U, any, any> ? U : R,
+    ErrorTypeOf<Y> | ErrorTypeOf<R> | Error,
+    FailureTypeOf<Y> | FailureTypeOf<R> | UnexpectedFailureType
+  > {
+    const run = async (): Promise<Result<any, any, any>> => {
+      let context: Record<string, any> = {};
+      let useCaseClass = '';
+
+      try {
+        const iterator = body();
+        let step = await iterator.next();
+
+        while (!step.done) {
+          // A rejected step fails like a yielded failure, so the generator is closed as well
+          const result: Result<any, any, any> = await Promise.resolve(step.value).catch(error =>
+            unexpectedFailure(error, { context, useCaseClass }),
+          );
+          context = { ...context, ...result.context };
+          useCaseClass = result.useCaseClass;
+
+          if (result.isFailure()) {
+            await iterator.return?.(undefined as R);
+            return Failure(result.getError(), result.getType(), context, useCaseClass);
+          }
+
+          step = await iterator.next(result.getValue());
+        }
+
+        if (step.value instanceof Result) {
+          return step.value.mergeContext(step.value, { context });
+        }
+
+        return Success(step.value, context, useCaseClass);
+      } catch (error) {
+        return unexpectedFailure(error, { context, useCaseClass });
+      }
+    };
+
+    return new ResultPromise(run());
+  }
+
+  /**
+   * Rebuilds a Result written by toJSON(), for instance after crossing a queue or a worker
+   * boundary. Errors are rehydrated as instances of their registered class
+   * (see registerErrorClass()) and context entries as Context instances.
+   *
+   * @param json JSON string or already parsed payload
+   * @returns The rebuilt Result
+   * @throws TypeError if the payload is not a serialized Result or has another version
+   */
+  static fromJSON<T, E extends Error = Error, F extends string = string>(
+    json: string | SerializedResult<T>,
+  ): Result<T, E, F> {
+    return new Result(deserializeResult(json) as ResultProps<T, E, F>);
+  }
+
+  constructor({ resultType, isSuccess, error, data, context, useCaseClass }: ResultProps<T, E, F>) {
     this.resultType = resultType;
     this._isSuccess = isSuccess;
     this.data = (data ?? {}) as T;
-    this.error = error ?? ({} as Error);
+    this.error = error ?? ({} as E);
     this.useCaseClass = useCaseClass ?? '';
     this.context = context ?? {};
   }
@@ -29,6 +412,13 @@ export class Result<T> {
     return this.data;
   }
 
+  /**
+   * Lets `yield*` unwrap this Result inside Result.gen().
+   */
+  *[Symbol.iterator](): Generator<Result<T, E, F>, T, any> {
+    return yield this;
+  }
+
   isSuccess(): boolean {
     return this._isSuccess;
   }
@@ -37,50 +427,309 @@ export class Result<T> {
     return !this._isSuccess;
   }
 
-  getType(): string {
+  getType(): 'SUCCESS' | F {
     return this.resultType;
   }
 
-  getError(): Error {
+  getError(): E {
     return this.error;
   }
 
   /**
    * Executes the next use case only if the current result is successful.
    * Similar to Promise.then(), this method allows for chaining use cases.
+   * The error type of the returned Result is the union of both steps' error types.
    *
    * @param fn Function to execute if the current result is successful
    * @returns A new Result containing the outcome of the function or the original failure
    */
-  async and_then<U>(
-    fn: (data: T, res: Result<T>) => Promise<Result<U>> | Result<U>,
-  ): Promise<Result<U>> {
+  async and_then<U, E2 extends Error = E, F2 extends string = F>(
+    fn: (data: T, res: Result<T, E, F>) => PromiseLike<Result<U, E2, F2>> | Result<U, E2, F2>,
+  ): Promise<Result<U, E | E2 | Error, F | F2 | UnexpectedFailureType>> {
     if (this.isFailure()) {
-      return Failure<U>(this.error, this.resultType, this.context, this.useCaseClass);
+      return Failure<U, E | E2, F | F2 | UnexpectedFailureType>(
+        this.error,
+        this.resultType as F,
+        this.context,
+        this.useCaseClass,
+      );
     }
 
     try {
       const result = await fn(this.getValue(), this);
-      return this.mergeContext<U>(result, this);
+      return this.mergeContext(result as Result<U, E | E2, F | F2 | UnexpectedFailureType>, this);
+    } catch (error) {
+      return this.unexpectedFailure<U, E | E2, F | F2>(error);
+    }
+  }
+
+  /**
+   * Executes the next step only if the current result is a failure.
+   * The counterpart of and_then(): successes pass through untouched, failures are handed to
+   * `fn`, whose Result replaces the failure with the contexts merged.
+   *
+   * @param fn Function to execute if the current result is a failure
+   * @returns The original success or the outcome of the function
+   */
+  async or_else<U = T, E2 extends Error = E, F2 extends string = F>(
+    fn: (error: E, res: Result<T, E, F>) => PromiseLike<Result<U, E2, F2>> | Result<U, E2, F2>,
+  ): Promise<Result<T | U, E2 | Error, F2 | UnexpectedFailureType>> {
+    if (this.isSuccess()) {
+      return this as unknown as Result<T | U, E2, F2 | UnexpectedFailureType>;
+    }
+
+    try {
+      const result = await fn(this.getError(), this);
+      return this.mergeContext(result as Result<T | U, E2, F2 | UnexpectedFailureType>, this);
+    } catch (error) {
+      return this.unexpectedFailure<T | U, E2, F2>(error);
+    }
+  }
+
+  /**
+   * Transforms the success value, keeping context and useCaseClass.
+   * Failures pass through untouched.
+   *
+   * @param fn Function applied to the success value
+   * @returns A new Result with the transformed value
+   */
+  map<U>(
+    fn: (data: T, res: Result<T, E, F>) => U,
+  ): Result<U, E | Error, F | UnexpectedFailureType> {
+    if (this.isFailure()) {
+      return this as unknown as Result<U, E, F | UnexpectedFailureType>;
+    }
+
+    try {
+      return Success(fn(this.getValue(), this), this.context, this.useCaseClass);
+    } catch (error) {
+      return this.unexpectedFailure<U, E, F>(error);
+    }
+  }
+
+  /**
+   * Transforms the error of a failure, keeping its failure type, context and useCaseClass.
+   * Successes pass through untouched.
+   *
+   * @param fn Function applied to the error
+   * @returns A new Result with the transformed error
+   */
+  mapError<E2 extends Error>(
+    fn: (error: E, res: Result<T, E, F>) => E2,
+  ): Result<T, E2 | Error, F | UnexpectedFailureType> {
+    if (this.isSuccess()) {
+      return this as unknown as Result<T, E2, F | UnexpectedFailureType>;
+    }
+
+    try {
+      return Failure<T, E2, F | UnexpectedFailureType>(
+        fn(this.getError(), this),
+        this.resultType as F,
+        this.context,
+        this.useCaseClass,
+      );
     } catch (error) {
-      return Failure<U>(
-        error instanceof Error ? error : new Error(String(error)),
-        'UNEXPECTED_ERROR',
-        { ...this.context, rawError: error },
+      return this.unexpectedFailure<T, E2, F>(error);
+    }
+  }
+
+  /**
+   * Renames the failure type of a failure, keeping its error, context and useCaseClass.
+   * Successes pass through untouched.
+   *
+   * @param fn Function receiving the current failure type and returning the new one
+   * @returns A new Result with the mapped failure type
+   */
+  mapFailureType<F2 extends string>(
+    fn: (failureType: F, error: E, res: Result<T, E, F>) => F2,
+  ): Result<T, E | Error, F2 | UnexpectedFailureType> {
+    if (this.isSuccess()) {
+      return this as unknown as Result<T, E, F2 | UnexpectedFailureType>;
+    }
+
+    try {
+      return Failure<T, E, F2 | UnexpectedFailureType>(
+        this.getError(),
+        fn(this.resultType as F, this.getError(), this),
+        this.context,
         this.useCaseClass,
       );
+    } catch (error) {
+      return this.unexpectedFailure<T, E, F2>(error);
+    }
+  }
+
+  /**
+   * Turns failures of the given types into successes using the matching handler.
+   * Failures of other types pass through untouched, so the handled types are removed
+   * from the failure type union.
+   *
+   * @param handlers Recovery functions keyed by failure type
+   * @returns A new Result, successful if a handler matched
+   */
+  recover<K extends F>(handlers: {
+    [P in K]: (error: E) => T;
+  }): Result<T, E | Error, Exclude<F, K> | UnexpectedFailureType> {
+    const handler = (handlers as Record<string, ((error: E) => T) | undefined>)[this.resultType];
+
+    if (this.isSuccess() || !handler) {
+      return this as unknown as Result<T, E, Exclude<F, K> | UnexpectedFailureType>;
+    }
+
+    try {
+      return Success(handler(this.getError()), this.context, this.useCaseClass);
+    } catch (error) {
+      return this.unexpectedFailure<T, E, Exclude<F, K>>(error);
     }
   }
 
+  /**
+   * Hands failures of the given types to the matching handler, whose Result (or plain value,
+   * as a success) replaces the failure with the contexts merged. Failures of other types
+   * and successes pass through untouched. A RouteRecord of the branch that ran is appended
+   * to `context.routes`.
+   *
+   * @example
+   * await FindInCacheUseCase.call(id).route({
+   *   NOT_FOUND: () => FindInDatabaseUseCase.call(id),
+   * });
+   *
+   * @param routes Handlers keyed by failure type
+   * @returns The original Result or the outcome of the matching handler
+   */
+  async route<R extends RouteHandlers<T, E, F>>(
+    routes: R,
+  ): Promise<
+    Result<
+      T | RoutedValue<R[keyof R]>,
+      E | RoutedError<R[keyof R]> | Error,
+      Exclude<F, keyof R> | RoutedFailureType<R[keyof R]> | UnexpectedFailureType
+    >
+  > {
+    const handler = (routes as Record<string, RouteHandlers<T, E, F>[F]>)[this.resultType];
+
+    if (this.isSuccess() || !handler) {
+      return this as unknown as Result<any, any, any>;
+    }
+
+    try {
+      const outcome = await handler(this.getError(), this);
+      const result =
+        outcome instanceof Result
+          ? this.mergeContext(outcome, this)
+          : Success(outcome, this.context, this.useCaseClass);
+      const record: RouteRecord = {
+        failureType: this.resultType,
+        branch:
+          outcome instanceof Result && outcome.useCaseClass ? outcome.useCaseClass : 'recovery',
+      };
+
+      return result.withContext({ routes: [...(result.context.routes ?? []), record] });
+    } catch (error) {
+      return this.unexpectedFailure(error);
+    }
+  }
+
+  /**
+   * Returns the success value, or the given default when the result is a failure.
+   */
+  unwrapOr<U = T>(defaultValue: U): T | U {
+    return this.isSuccess() ? this.getValue() : defaultValue;
+  }
+
+  /**
+   * Returns the success value, or computes one from the error when the result is a failure.
+   */
+  unwrapOrElse<U = T>(fn: (error: E, res: Result<T, E, F>) => U): T | U {
+    return this.isSuccess() ? this.getValue() : fn(this.getError(), this);
+  }
+
+  /**
+   * Runs a side effect with the success value and returns the same result.
+   * An exception thrown by `fn` turns the result into an `UNEXPECTED_ERROR` failure.
+   */
+  tap(
+    fn: (data: T, res: Result<T, E, F>) => void,
+  ): Result<T, E | Error, F | UnexpectedFailureType> {
+    if (this.isFailure()) {
+      return this;
+    }
+
+    try {
+      fn(this.getValue(), this);
+      return this;
+    } catch (error) {
+      return this.unexpectedFailure<T, E, F>(error);
+    }
+  }
+
+  /**
+   * Runs a side effect with the error of a failure and returns the same result.
+   * An exception thrown by `fn` turns the result into an `UNEXPECTED_ERROR` failure.
+   */
+  tapError(
+    fn: (error: E, res: Result<T, E, F>) => void,
+  ): Result<T, E | Error, F | UnexpectedFailureType> {
+    if (this.isSuccess()) {
+      return this;
+    }
+
+    try {
+      fn(this.getError(), this);
+      return this;
+    } catch (error) {
+      return this.unexpectedFailure<T, E, F>(error);
+    }
+  }
+
+  /**
+   * Unwraps a Result whose success value is itself a Result, merging both contexts
+   * the same way and_then() does.
+   *
+   * @returns The inner Result, or the outer failure
+   */
+  flatten<U, E2 extends Error, F2 extends string>(
+    this: Result<Result<U, E2, F2>, E, F>,
+  ): Result<U, E | E2, F | F2> {
+    if (this.isFailure()) {
+      return this as unknown as Result<U, E | E2, F | F2>;
+    }
+
+    return this.mergeContext(this.getValue() as Result<U, E | E2, F | F2>, this);
+  }
+
+  /**
+   * Returns a copy of the result with extra context entries. Existing entries with the
+   * same key are replaced.
+   *
+   * @param context Entries to add
+   * @returns A new Result with the merged context
+   */
+  withContext(context: Record<string, any>): Result<T, E, F> {
+    return new Result<T, E, F>({
+      resultType: this.resultType,
+      isSuccess: this._isSuccess,
+      error: this.error,
+      data: this.data,
+      useCaseClass: this.useCaseClass,
+      context: { ...this.context, ...context },
+    });
+  }
+
   /**
    * @deprecated Use and_then() instead
    */
-  async execUseCase<U>(fn: (data: T, res: Result<T>) => Promise<Result<U>>): Promise<Result<U>> {
+  async execUseCase<U, E2 extends Error = E, F2 extends string = F>(
+    fn: (data: T, res: Result<T, E, F>) => Promise<Result<U, E2, F2>>,
+  ): Promise<Result<U, E | E2 | Error, F | F2 | UnexpectedFailureType>> {
     return this.and_then(fn);
   }
 
-  private mergeContext<U>(result: Result<U>, mergeable: Result<T>): Result<U> {
-    return new Result<U>({
+  private mergeContext<U, E2 extends Error, F2 extends string>(
+    result: Result<U, E2, F2>,
+    mergeable: Pick<Result<T, E, F>, 'context'>,
+  ): Result<U, E2, F2> {
+    return new Result<U, E2, F2>({
       resultType: result.resultType,
       isSuccess: result._isSuccess,
       error: result.error,
@@ -90,7 +739,13 @@ export class Result<T> {
     });
   }
 
-  onSuccess(f: (data: T, res: Result<T>) => void): Result<T> {
+  private unexpectedFailure<U, E2 extends Error, F2 extends string>(
+    error: unknown,
+  ): Result<U, E2 | Error, F2 | UnexpectedFailureType> {
+    return unexpectedFailure<U, E2, F2>(error, this);
+  }
+
+  onSuccess(f: (data: T, res: Result<T, E, F>) => void): Result<T, E, F> {
     if (this._isSuccess) {
       f(this.getValue(), this);
     }
@@ -98,31 +753,101 @@ export class Result<T> {
     return this;
   }
 
-  onFailure(f: (error: Error, res: Result<T>) => void, failureType = 'FAILURE'): Result<T> {
-    if (this.isFailure() && this.resultType === failureType) {
+  /**
+   * Executes the callback when the result is a failure of the given type.
+   * Only failure types declared in `F` are accepted, and the type is required once they
+   * are declared: the `FAILURE` default only applies to undeclared (`string`) failure types.
+   */
+  onFailure<Self extends Result<T, E, F>>(
+    this: Self,
+    f: (error: E, res: Result<T, E, F>) => void,
+    ...[failureType]: OnFailureTypeArgument<FailureTypeOf<Self>>
+  ): Result<T, E, F> {
+    if (this.isFailure() && this.resultType === (failureType ?? 'FAILURE')) {
       f(this.getError(), this);
     }
 
     return this;
   }
+
+  /**
+   * Exhaustively handles the result: `SUCCESS` plus every declared failure type must
+   * have a handler, or a `_` fallback must handle the rest, otherwise the call does not
+   * compile.
+   *
+   * @param handlers Handlers keyed by result type
+   * @returns The value returned by the matching handler
+   */
+  match<R, Self extends Result<T, E, string> = this>(
+    this: Self,
+    handlers: MatchHandlers<T, E, FailureTypeOf<Self>, R>,
+  ): R {
+    const handlerMap = handlers as unknown as Record<
+      string,
+      ((value: any, res: Self) => R) | undefined
+    >;
+
+    if (this.isSuccess()) {
+      return handlerMap.SUCCESS!(this.getValue(), this);
+    }
+
+    const handler = handlerMap[this.resultType] ?? handlerMap._;
+
+    if (!handler) {
+      throw new Error(`No match handler registered for failure type '${this.resultType}'`);
+    }
+
+    return handler(this.getError(), this);
+  }
+
+  /**
+   * Versioned, JSON-safe form of the result, also used by `JSON.stringify()`. Keeps the
+   * error's name, message, stack, own fields and cause chain, and the context as plain objects.
+   */
+  toJSON(): SerializedResult<T> {
+    return serializeResult({
+      resultType: this.resultType,
+      isSuccess: this._isSuccess,
+      data: this.data,
+      error: this.error,
+      context: this.context,
+      useCaseClass: this.useCaseClass,
+    });
+  }
 }
 
 /**
  * A class that wraps a Promise<Result<T>> and provides methods for chaining operations.
  * This allows for a more fluent API similar to Promise chaining.
  */
-export class ResultPromise<T> implements PromiseLike<Result<T>> {
-  private promise: Promise<Result<T>>;
+export class ResultPromise<T, E extends Error = Error, F extends string = string>
+  implements PromiseLike<Result<T, E, F>>
+{
+  private promise: Promise<Result<T, E, F>>;
+  private signal?: AbortSignal;
 
-  constructor(promise: Promise<Result<T>>) {
+  /**
+   * @param promise Promise resolving to the Result
+   * @param signal Once aborted, later and_then() steps are skipped and the chain resolves
+   * to a `CANCELLED` failure. Kept by every ResultPromise derived from this one.
+   */
+  constructor(promise: Promise<Result<T, E, F>>, signal?: AbortSignal) {
     this.promise = promise;
+    this.signal = signal;
+  }
+
+  /**
+   * Lets `yield*` unwrap this ResultPromise inside Result.gen().
+   */
+  *[Symbol.iterator](): Generator<ResultPromise<T, E, F>, T, any> {
+    return yield this;
   }
 
   /**
    * Implementation of the PromiseLike interface.
    */
-  then<TResult1 = Result<T>, TResult2 = never>(
-    onfulfilled?: ((value: Result<T>) => TResult1 | PromiseLike<TResult1>) | null,
+  then<TResult1 = Result<T, E, F>, TResult2 = never>(
+    onfulfilled?: ((value: Result<T, E, F>) => TResult1 | PromiseLike<TResult1>) | null,
     onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
   ): Promise<TResult1 | TResult2> {
     return this.promise.then(onfulfilled, onrejected);
@@ -135,41 +860,190 @@ export class ResultPromise<T> implements PromiseLike<Result<T>> {
    * @param fn Function to execute if the Result is successful
    * @returns A new ResultPromise
    */
-  and_then<U>(
-    fn: (value: T, result: Result<T>) => Promise<Result<U>> | Result<U>,
-  ): ResultPromise<U> {
+  and_then<U, E2 extends Error = E, F2 extends string = F>(
+    fn: (value: T, result: Result<T, E, F>) => PromiseLike<Result<U, E2, F2>> | Result<U, E2, F2>,
+  ): ResultPromise<U, E | E2 | Error, F | F2 | UnexpectedFailureType> {
     const newPromise = this.promise.then(result => {
+      if (this.signal?.aborted && result.isSuccess()) {
+        return cancelledFailure<U, E | E2, F | F2>(this.signal, result);
+      }
       return result.and_then(fn);
     });
 
-    return new ResultPromise(newPromise);
+    return this.derive(newPromise);
+  }
+
+  /**
+   * Chains a function to be called if the Result is a failure.
+   * Similar to Result.or_else() but works on the Promise level.
+   *
+   * @param fn Function to execute if the Result is a failure
+   * @returns A new ResultPromise
+   */
+  or_else<U = T, E2 extends Error = E, F2 extends string = F>(
+    fn: (error: E, result: Result<T, E, F>) => PromiseLike<Result<U, E2, F2>> | Result<U, E2, F2>,
+  ): ResultPromise<T | U, E2 | Error, F2 | UnexpectedFailureType> {
+    return this.derive(this.promise.then(result => result.or_else(fn)));
+  }
+
+  /**
+   * Transforms the success value once the Result is available. See Result.map().
+   */
+  map<U>(
+    fn: (data: T, res: Result<T, E, F>) => U,
+  ): ResultPromise<U, E | Error, F | UnexpectedFailureType> {
+    return this.derive(this.promise.then(result => result.map(fn)));
+  }
+
+  /**
+   * Transforms the error once the Result is available. See Result.mapError().
+   */
+  mapError<E2 extends Error>(
+    fn: (error: E, res: Result<T, E, F>) => E2,
+  ): ResultPromise<T, E2 | Error, F | UnexpectedFailureType> {
+    return this.derive(this.promise.then(result => result.mapError(fn)));
+  }
+
+  /**
+   * Renames the failure type once the Result is available. See Result.mapFailureType().
+   */
+  mapFailureType<F2 extends string>(
+    fn: (failureType: F, error: E, res: Result<T, E, F>) => F2,
+  ): ResultPromise<T, E | Error, F2 | UnexpectedFailureType> {
+    return this.derive(this.promise.then(result => result.mapFailureType(fn)));
+  }
+
+  /**
+   * Turns failures of the given types into successes. See Result.recover().
+   */
+  recover<K extends F>(handlers: {
+    [P in K]: (error: E) => T;
+  }): ResultPromise<T, E | Error, Exclude<F, K> | UnexpectedFailureType> {
+    return this.derive(this.promise.then(result => result.recover(handlers)));
+  }
+
+  /**
+   * Hands failures of the given types to the matching handler. See Result.route().
+   */
+  route<R extends RouteHandlers<T, E, F>>(
+    routes: R,
+  ): ResultPromise<
+    T | RoutedValue<R[keyof R]>,
+    E | RoutedError<R[keyof R]> | Error,
+    Exclude<F, keyof R> | RoutedFailureType<R[keyof R]> | UnexpectedFailureType
+  > {
+    return this.derive(this.promise.then(result => result.route(routes)));
+  }
+
+  /**
+   * Unwraps a ResultPromise whose success value is a Result. See Result.flatten().
+   */
+  flatten<U, E2 extends Error, F2 extends string>(
+    this: ResultPromise<Result<U, E2, F2>, E, F>,
+  ): ResultPromise<U, E | E2, F | F2> {
+    return this.derive(this.promise.then(result => result.flatten()));
+  }
+
+  /**
+   * Adds context entries to the result. See Result.withContext().
+   */
+  withContext(context: Record<string, any>): ResultPromise<T, E, F> {
+    return this.derive(this.promise.then(result => result.withContext(context)));
+  }
+
+  /**
+   * Runs a side effect with the success value. The chain waits for the callback (including
+   * a returned promise) before continuing, and an exception turns the Result into an
+   * `UNEXPECTED_ERROR` failure.
+   *
+   * @param fn Callback function
+   * @returns A new ResultPromise resolving to the same Result
+   */
+  tap(
+    fn: (data: T, res: Result<T, E, F>) => void | PromiseLike<void>,
+  ): ResultPromise<T, E | Error, F | UnexpectedFailureType> {
+    return this.sequence(result =>
+      result.isSuccess() ? fn(result.getValue(), result) : undefined,
+    );
+  }
+
+  /**
+   * Runs a side effect with the error of a failure. Sequenced like tap().
+   *
+   * @param fn Callback function
+   * @returns A new ResultPromise resolving to the same Result
+   */
+  tapError(
+    fn: (error: E, res: Result<T, E, F>) => void | PromiseLike<void>,
+  ): ResultPromise<T, E | Error, F | UnexpectedFailureType> {
+    return this.sequence(result =>
+      result.isFailure() ? fn(result.getError(), result) : undefined,
+    );
   }
 
   /**
    * Registers a callback to be executed if the Result is successful.
+   * Callbacks run in the order they are chained; exceptions become `UNEXPECTED_ERROR` failures.
    *
    * @param f Callback function
-   * @returns This ResultPromise for chaining
+   * @returns A new ResultPromise resolving after the callback
    */
-  onSuccess(f: (data: T, res: Result<T>) => void): ResultPromise<T> {
-    this.promise.then(result => {
-      result.onSuccess(f);
-    });
-    return this;
+  onSuccess(
+    f: (data: T, res: Result<T, E, F>) => void | PromiseLike<void>,
+  ): ResultPromise<T, E | Error, F | UnexpectedFailureType> {
+    return this.tap(f);
   }
 
   /**
    * Registers a callback to be executed if the Result is a failure of the specified type.
+   * Callbacks run in the order they are chained; exceptions become `UNEXPECTED_ERROR` failures.
    *
    * @param f Callback function
-   * @param failureType Optional failure type to match
-   * @returns This ResultPromise for chaining
+   * @param failureType Failure type to match, `FAILURE` by default while the failure types
+   * are not declared
+   * @returns A new ResultPromise resolving after the callback
    */
-  onFailure(f: (error: Error, res: Result<T>) => void, failureType = 'FAILURE'): ResultPromise<T> {
-    this.promise.then(result => {
-      result.onFailure(f, failureType);
-    });
-    return this;
+  onFailure<Self extends ResultPromise<T, E, F>>(
+    this: Self,
+    f: (error: E, res: Result<T, E, F>) => void | PromiseLike<void>,
+    ...[failureType]: OnFailureTypeArgument<FailureTypeOf<Self>>
+  ): ResultPromise<T, E | Error, F | UnexpectedFailureType> {
+    return this.sequence(result =>
+      result.isFailure() && result.resultType === (failureType ?? 'FAILURE')
+        ? f(result.getError(), result)
+        : undefined,
+    );
+  }
+
+  /**
+   * Awaits the Result and returns its value, or the given default for failures.
+   */
+  async unwrapOr<U = T>(defaultValue: U): Promise<T | U> {
+    const result = await this.promise;
+    return result.unwrapOr(defaultValue);
+  }
+
+  /**
+   * Awaits the Result and returns its value, or computes one from the error for failures.
+   */
+  async unwrapOrElse<U = T>(fn: (error: E, res: Result<T, E, F>) => U): Promise<T | U> {
+    const result = await this.promise;
+    return result.unwrapOrElse(fn);
+  }
+
+  /**
+   * Awaits the promise and exhaustively handles the Result.
+   * See Result.match() for the handler rules.
+   *
+   * @param handlers Handlers keyed by result type
+   * @returns A Promise resolving to the value returned by the matching handler
+   */
+  async match<R, Self extends ResultPromise<T, E, string> = this>(
+    this: Self,
+    handlers: MatchHandlers<T, E, FailureTypeOf<Self>, R>,
+  ): Promise<R> {
+    const result = await this.toResult();
+    return result.match(handlers as MatchHandlers<T, E, string, R>);
   }
 
   /**
@@ -177,17 +1051,135 @@ export class ResultPromise<T> implements PromiseLike<Result<T>> {
    *
    * @returns The Result
    */
-  async toResult(): Promise<Result<T>> {
+  async toResult(): Promise<Result<T, E, F>> {
     return await this.promise;
   }
+
+  private derive<U, E2 extends Error, F2 extends string>(
+    promise: Promise<Result<U, E2, F2>>,
+  ): ResultPromise<U, E2, F2> {
+    return new ResultPromise(promise, this.signal);
+  }
+
+  private sequence(
+    effect: (result: Result<T, E, F>) => void | PromiseLike<void>,
+  ): ResultPromise<T, E | Error, F | UnexpectedFailureType> {
+    const newPromise = this.promise.then(
+      async (result): Promise<Result<T, E | Error, F | UnexpectedFailureType>> => {
+        try {
+          await effect(result);
+          return result;
+        } catch (error) {
+          return unexpectedFailure<T, E, F>(error, result);
+        }
+      },
+    );
+
+    return this.derive(newPromise);
+  }
 }
 
-export const Success = <U>(
+type SettledEntry = [string | number, Result<any, any, any>];
+
+const entriesOf = (inputs: ResultInputs): [string | number, ResultLike][] => {
+  return Array.isArray(inputs)
+    ? inputs.map((input, index) => [index, input])
+    : Object.entries(inputs);
+};
+
+const settle = async (input: ResultLike): Promise<Result<any, any, any>> => {
+  try {
+    return await input;
+  } catch (error) {
+    return unexpectedFailure(error, { context: {}, useCaseClass: '' });
+  }
+};
+
+const mergeContexts = (results: Result<any, any, any>[]): Record<string, any> => {
+  return results.reduce((context, result) => ({ ...context, ...result.context }), {});
+};
+
+const aggregateFailure = (entries: SettledEntry[]): Result<any, any, any> => {
+  const failed = entries.filter(([, result]) => result.isFailure());
+  const [, first] = failed[0];
+
+  return Failure(
+    new ResultAggregateError(
+      failed.map(([key, result]) => ({
+        key,
+        failureType: result.getType(),
+        error: result.getError(),
+      })),
+    ),
+    first.getType(),
+    mergeContexts(entries.map(([, result]) => result)),
+    first.useCaseClass,
+  );
+};
+
+const combineSettled = (
+  entries: SettledEntry[],
+  inputs: ResultInputs,
+  collectFailures: boolean,
+): Result<any, any, any> => {
+  const results = entries.map(([, result]) => result);
+  const failureIndex = results.findIndex(result => result.isFailure());
+
+  if (failureIndex !== -1) {
+    if (collectFailures) {
+      return aggregateFailure(entries);
+    }
+
+    const failure = results[failureIndex];
+    return Failure(
+      failure.getError(),
+      failure.getType(),
+      mergeContexts(results.slice(0, failureIndex + 1)),
+      failure.useCaseClass,
+    );
+  }
+
+  const values = Array.isArray(inputs)
+    ? results.map(result => result.getValue())
+    : Object.fromEntries(entries.map(([key, result]) => [key, result.getValue()]));
+
+  return Success(values, mergeContexts(results));
+};
+
+const unexpectedFailure = <U, E extends Error, F extends string>(
+  error: unknown,
+  source: Pick<Result<unknown, Error, string>, 'context' | 'useCaseClass'>,
+): Result<U, E | Error, F | UnexpectedFailureType> => {
+  return Failure<U, E | Error, F | UnexpectedFailureType>(
+    error instanceof Error ? error : new Error(String(error)),
+    'UNEXPECTED_ERROR',
+    { ...source.context, rawError: error },
+    source.useCaseClass,
+  );
+};
+
+/**
+ * Ends a ResultPromise chain whose signal was aborted. The `CANCELLED` failure type is only
+ * reachable from calls that were given a signal, whose failure types already include it.
+ */
+const cancelledFailure = <U, E extends Error, F extends string>(
+  signal: AbortSignal,
+  source: Pick<Result<unknown, Error, string>, 'context' | 'useCaseClass'>,
+): Result<U, E | CancelledError, F> => {
+  return Failure<U, E | CancelledError, F>(
+    new CancelledError('Operation cancelled', { cause: signal.reason }),
+    'CANCELLED' as F,
+    source.context,
+    source.useCaseClass,
+  );
+};
+
+export const Success = <U, E extends Error = Error, F extends string = string>(
   value?: U,
   context?: Record<string, any>,
   useCaseClass?: string,
-): Result<U> => {
-  return new Result<U>({
+): Result<U, E, F> => {
+  return new Result<U, E, F>({
     resultType: 'SUCCESS',
     isSuccess: true,
     data: value,
@@ -196,17 +1188,33 @@ export const Success = <U>(
   });
 };
 
-export const Failure = <U>(
-  error: Error,
-  failureType = 'FAILURE',
+/**
+ * Creates a failure Result. The failure type is not inferred from the argument: it is
+ * checked against the declared union (for instance the return type of `execute`), so
+ * misspelled types fail to compile.
+ */
+export function Failure<U, E extends Error = Error, F extends string = string>(
+  error: E,
+  failureType: [F][F extends any ? 0 : never],
+  context?: Record<string, any>,
+  useCaseClass?: string,
+): Result<U, E, F>;
+/**
+ * Creates a `FAILURE` failure Result. Its failure types are not declared (plain `string`),
+ * so it does not compile where failure types are declared: pass one of them instead.
+ */
+export function Failure<U, E extends Error = Error>(error: E): Result<U, E, string>;
+export function Failure<U, E extends Error, F extends string>(
+  error: E,
+  failureType: F | 'FAILURE' = 'FAILURE',
   context?: Record<string, any>,
   useCaseClass?: string,
-): Result<U> => {
-  return new Result<U>({
+): Result<U, E, F | 'FAILURE'> {
+  return new Result<U, E, F | 'FAILURE'>({
     resultType: failureType,
     isSuccess: false,
     error,
     context,
     useCaseClass,
   });
-};
+}
@@ -0,0 +1,180 @@
+import { NotFoundError } from './errors';
+import { Failure, Result, Success } from './result';
+import { type RetryPolicy, retryDelay, retryResult } from './retry';
+import { UseCase } from './use-case';
+
+const noSleep = async (): Promise<void> => undefined;
+
+describe('Retry', () => {
+  describe('retryDelay', () => {
+    it('should keep the delay with fixed backoff', () => {
+      const policy: RetryPolicy = { maxAttempts: 5, delayMs: 50, backoff: 'fixed' };
+
+      expect([1, 2, 3].map(attempt => retryDelay(policy, attempt))).toEqual([50, 50, 50]);
+    });
+
+    it('should grow the delay with exponential backoff up to the maximum', () => {
+      const policy: RetryPolicy = { maxAttempts: 5, delayMs: 100, maxDelayMs: 500 };
+
+      expect([1, 2, 3, 4].map(attempt => retryDelay(policy, attempt))).toEqual([
+        100, 200, 400, 500,
+      ]);
+    });
+
+    it('should apply the exponential factor', () => {
+      expect(retryDelay({ maxAttempts: 3, delayMs: 10, factor: 3 }, 3)).toBe(90);
+    });
+
+    it('should randomize the jitter fraction of the delay', () => {
+      const policy: RetryPolicy = { maxAttempts: 3, delayMs: 100, jitter: 0.5, random: () => 1 };
+
+      expect(retryDelay(policy, 1)).toBe(50);
+      expect(retryDelay({ ...policy, jitter: 1, random: () => 0.25 }, 1)).toBe(75);
+    });
+  });
+
+  describe('retryResult', () => {
+    it('should retry until the operation succeeds', async () => {
+      const operation = jest
+        .fn<Promise<Result<string>>, [number]>()
+        .mockResolvedValueOnce(Failure(new Error('Timeout'), 'UNEXPECTED_ERROR'))
+        .mockResolvedValueOnce(Success('done'));
+
+      const result = await retryResult(operation, { maxAttempts: 3, sleep: noSleep });
+
+      expect(result.getValue()).toBe('done');
+      expect(operation.mock.calls).toEqual([[1], [2]]);
+    });
+
+    it('should record the attempts and the errors of every failed attempt', async () => {
+      const error = new Error('Timeout');
+
+      const result = await retryResult(async () => Failure(error, 'UNEXPECTED_ERROR'), {
+        maxAttempts: 3,
+        sleep: noSleep,
+      });
+
+      expect(result.context.retry).toEqual({
+        attempts: 3,
+        errors: [1, 2, 3].map(attempt => ({ attempt, failureType: 'UNEXPECTED_ERROR', error })),
+      });
+    });
+
+    it('should wait the backoff delay between attempts', async () => {
+      const sleep = jest.fn(noSleep);
+
+      await retryResult(async () => Failure(new Error('Timeout'), 'UNEXPECTED_ERROR'), {
+        maxAttempts: 4,
+        delayMs: 10,
+        sleep,
+      });
+
+      expect(sleep.mock.calls).toEqual([[10], [20], [40]]);
+    });
+
+    it('should only retry unexpected errors by default', async () => {
+      const operation = jest.fn(async () => Failure(new Error('Missing'), 'NOT_FOUND'));
+
+      const result = await retryResult(operation, { maxAttempts: 3, sleep: noSleep });
+
+      expect(result.getType()).toBe('NOT_FOUND');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry the listed failure types', async () => {
+      const operation = jest.fn(async () => Failure(new Error('Busy'), 'DB_TIMEOUT'));
+
+      await retryResult(operation, { maxAttempts: 3, retryOn: ['DB_TIMEOUT'], sleep: noSleep });
+
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should ask the predicate whether a failure is retryable', async () => {
+      const retryOn = jest.fn(({ error }: { error: Error }) => error.message === 'Busy');
+      const operation = jest
+        .fn<Promise<Result<string>>, [number]>()
+        .mockResolvedValueOnce(Failure(new Error('Busy'), 'FAILURE'))
+        .mockResolvedValueOnce(Failure(new Error('Broken'), 'FAILURE'));
+
+      const result = await retryResult(operation, { maxAttempts: 5, retryOn, sleep: noSleep });
+
+      expect(result.getError().message).toBe('Broken');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(retryOn).toHaveBeenLastCalledWith(
+        expect.objectContaining({ attempt: 2, failureType: 'FAILURE' }),
+      );
+    });
+
+    it('should not start another attempt when the signal is aborted during the backoff', async () => {
+      const controller = new AbortController();
+      const operation = jest.fn(async (): Promise<Result<string>> => Failure(new Error('Busy')));
+      const sleep = async (): Promise<void> => controller.abort();
+
+      const result = await retryResult(
+        operation,
+        { maxAttempts: 3, retryOn: ['FAILURE'], sleep },
+        'anonymous',
+        'UNEXPECTED_ERROR',
+        controller.signal,
+      );
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(result.context.retry.attempts).toBe(1);
+    });
+  });
+
+  describe('use case retry policy', () => {
+    it('should retry execute with the class policy', async () => {
+      let attempts = 0;
+
+      class FlakyQueryUseCase extends UseCase<string, number> {
+        static retryPolicy: RetryPolicy = { maxAttempts: 3, sleep: noSleep };
+
+        async execute(): Promise<Result<number>> {
+          attempts += 1;
+          if (attempts < 3) throw new Error('Database timeout');
+          return Success(attempts);
+        }
+      }
+
+      const result = await FlakyQueryUseCase.call('query');
+
+      expect(result.getValue()).toBe(3);
+      expect(result.context.retry.attempts).toBe(3);
+      expect(
+        result.context.retry.errors.map((failure: { error: Error }) => failure.error.message),
+      ).toEqual(['Database timeout', 'Database timeout']);
+      expect(result.context).toHaveProperty('FlakyQueryUseCase');
+    });
+
+    it('should not retry domain errors by default', async () => {
+      const execute = jest.fn(async () => {
+        throw new NotFoundError('Missing');
+      });
+
+      class LookupUseCase extends UseCase<string, number> {
+        static retryPolicy: RetryPolicy = { maxAttempts: 3, sleep: noSleep };
+
+        execute = execute;
+      }
+
+      const result = await LookupUseCase.call('id');
+
+      expect(result.getType()).toBe('NOT_FOUND');
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave use cases without a policy untouched', async () => {
+      class PlainUseCase extends UseCase<string, number> {
+        async execute(): Promise<Result<number>> {
+          throw new Error('Boom');
+        }
+      }
+
+      const result = await PlainUseCase.call('x');
+
+      expect(result.getType()).toBe('UNEXPECTED_ERROR');
+      expect(result.context).not.toHaveProperty('retry');
+    });
+  });
+});
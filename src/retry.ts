@@ -0,0 +1,150 @@
+import { getDebugLogger } from './debug';
+import type { UseCaseMiddleware } from './middleware';
+import type { Result } from './result';
+
+/**
+ * A failed attempt, as seen by `retryOn` and recorded in the final Result.
+ */
+export type RetryAttemptFailure = {
+  attempt: number;
+  failureType: string;
+  error: Error;
+};
+
+/**
+ * Retry configuration.
+ *
+ * - `maxAttempts`: total attempts, the first one included
+ * - `delayMs`: delay before the first retry (100ms by default)
+ * - `backoff`: `fixed` keeps `delayMs`, `exponential` (default) multiplies it by `factor`
+ *   (2 by default) after every retry, up to `maxDelayMs`
+ * - `jitter`: fraction of each delay that is randomized, from 0 (default) to 1 (full jitter)
+ * - `retryOn`: failure types to retry, or a predicate over the failed attempt. By default
+ *   only unexpected errors are retried (`UNEXPECTED_ERROR` for use cases, the default
+ *   failure type for wrappers)
+ * - `sleep` and `random`: replace the timer and the random source, for instance in tests
+ */
+export type RetryPolicy = {
+  maxAttempts: number;
+  delayMs?: number;
+  backoff?: 'fixed' | 'exponential';
+  factor?: number;
+  maxDelayMs?: number;
+  jitter?: number;
+  retryOn?: readonly string[] | ((failure: RetryAttemptFailure) => boolean);
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+};
+
+/**
+ * Stored under `context.retry` on the Result returned by a retried operation.
+ */
+export type RetryRecord = {
+  attempts: number;
+  errors: RetryAttemptFailure[];
+};
+
+const defaultSleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Delay before the retry following the given failed attempt (1-based).
+ */
+export const retryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const { delayMs = 100, backoff = 'exponential', factor = 2, maxDelayMs = Infinity } = policy;
+  const jitter = Math.min(Math.max(policy.jitter ?? 0, 0), 1);
+  const random = policy.random ?? Math.random;
+
+  const delay = Math.min(
+    backoff === 'exponential' ? delayMs * factor ** (attempt - 1) : delayMs,
+    maxDelayMs,
+  );
+
+  return Math.round(delay * (1 - jitter * random()));
+};
+
+const isRetryable = (
+  policy: RetryPolicy,
+  failure: RetryAttemptFailure,
+  unexpectedFailureType: string,
+): boolean => {
+  const { retryOn = [unexpectedFailureType] } = policy;
+  return typeof retryOn === 'function' ? retryOn(failure) : retryOn.includes(failure.failureType);
+};
+
+/**
+ * Runs an operation until it succeeds, returns a failure that is not retryable or runs
+ * out of attempts. The returned Result records the attempt count and every failed
+ * attempt under `context.retry`.
+ *
+ * @param operation Receives the attempt number (1-based)
+ * @param policy Retry policy
+ * @param name Name used in debug logs
+ * @param unexpectedFailureType Failure type retried when the policy has no `retryOn`
+ * @param signal Stops retrying once aborted, also during the backoff delay
+ * @returns The Result of the last attempt
+ */
+export const retryResult = async <R extends Result<any, any, any>>(
+  operation: (attempt: number) => Promise<R>,
+  policy: RetryPolicy,
+  name = 'anonymous',
+  unexpectedFailureType = 'UNEXPECTED_ERROR',
+  signal?: AbortSignal,
+): Promise<R> => {
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  const sleep = policy.sleep ?? defaultSleep;
+  const errors: RetryAttemptFailure[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await operation(attempt);
+    const retried = (): R => result.withContext({ retry: { attempts: attempt, errors } }) as R;
+
+    if (result.isSuccess()) {
+      return retried();
+    }
+
+    const failure = { attempt, failureType: result.getType(), error: result.getError() };
+    errors.push(failure);
+
+    if (
+      attempt >= maxAttempts ||
+      signal?.aborted ||
+      !isRetryable(policy, failure, unexpectedFailureType)
+    ) {
+      return retried();
+    }
+
+    const delay = retryDelay(policy, attempt);
+    getDebugLogger().logRetry(name, attempt, maxAttempts, failure.failureType, delay);
+    await sleep(delay);
+
+    // Aborted during the backoff: the caller already has its failure
+    if (signal?.aborted) {
+      return retried();
+    }
+  }
+};
+
+/**
+ * Built-in middleware retrying `execute` according to the class's `retryPolicy`.
+ * Each attempt runs the rest of the pipeline again, input schema check included.
+ */
+export const retryMiddleware: UseCaseMiddleware<unknown, unknown> = (
+  input,
+  useCase,
+  next,
+  execution,
+) => {
+  const { retryPolicy } = useCase.constructor as { retryPolicy?: RetryPolicy };
+
+  if (!retryPolicy) {
+    return next();
+  }
+
+  return retryResult(
+    () => next(),
+    retryPolicy,
+    useCase.constructor.name,
+    'UNEXPECTED_ERROR',
+    execution?.signal,
+  );
+};
@@ -0,0 +1,146 @@
+import { Failure, Result, Success } from './result';
+import { Saga, type SagaRecord } from './saga';
+import { UseCase } from './use-case';
+
+type Cart = { sku: string; card: string };
+
+let log: string[] = [];
+let carrierAvailable = true;
+
+class ReserveStockUseCase extends UseCase<Cart, Cart & { reservation: string }> {
+  async execute(cart: Cart): Promise<Result<Cart & { reservation: string }>> {
+    log.push(`reserve ${cart.sku}`);
+    return Success({ ...cart, reservation: 'r1' });
+  }
+}
+
+class ReleaseStockUseCase extends UseCase<{ reservation: string }, void> {
+  async execute({ reservation }: { reservation: string }): Promise<Result<void>> {
+    log.push(`release ${reservation}`);
+    return Success(undefined);
+  }
+}
+
+class ChargeCardUseCase extends UseCase<{ card: string }, string> {
+  async execute({ card }: { card: string }): Promise<Result<string>> {
+    if (card === 'declined') return Failure(new Error('Card declined'), 'PAYMENT_DECLINED');
+    log.push(`charge ${card}`);
+    return Success('p1');
+  }
+}
+
+class RefundPaymentUseCase extends UseCase<string, void> {
+  async execute(payment: string): Promise<Result<void>> {
+    log.push(`refund ${payment}`);
+    return Success(undefined);
+  }
+}
+
+class CreateShipmentUseCase extends UseCase<string, string> {
+  async execute(payment: string): Promise<Result<string>> {
+    if (!carrierAvailable) return Failure(new Error('No carrier available'), 'NO_CARRIER');
+    log.push(`ship ${payment}`);
+    return Success('s1');
+  }
+}
+
+class FailingReleaseUseCase extends UseCase<{ reservation: string }, void> {
+  async execute(): Promise<Result<void>> {
+    return Failure(new Error('Stock service down'), 'UNAVAILABLE');
+  }
+}
+
+const checkout = (release = ReleaseStockUseCase): Saga<Cart, string, Error, string> =>
+  new Saga<Cart>('Checkout')
+    .step(ReserveStockUseCase, { compensate: release })
+    .step(ChargeCardUseCase, { compensate: RefundPaymentUseCase })
+    .step(CreateShipmentUseCase);
+
+beforeEach(() => {
+  log = [];
+  carrierAvailable = true;
+});
+
+describe('Saga', () => {
+  it('should pass each output to the next step and merge their contexts', async () => {
+    const result = await checkout().run({ sku: 'tea', card: 'visa' });
+
+    expect(result.getValue()).toBe('s1');
+    expect(Object.keys(result.context)).toEqual([
+      'ReserveStockUseCase',
+      'ChargeCardUseCase',
+      'CreateShipmentUseCase',
+    ]);
+    expect(result.useCaseClass).toBe('Checkout');
+    expect(log).toEqual(['reserve tea', 'charge visa', 'ship p1']);
+  });
+
+  it('should compensate the completed steps in reverse order when a step fails', async () => {
+    carrierAvailable = false;
+
+    const result = await checkout().run({ sku: 'tea', card: 'visa' });
+
+    expect(result.getType()).toBe('NO_CARRIER');
+    expect(result.getError().message).toBe('No carrier available');
+    expect(log).toEqual(['reserve tea', 'charge visa', 'refund p1', 'release r1']);
+    expect(result.context.saga).toEqual<SagaRecord>({
+      failedStep: 'CreateShipmentUseCase',
+      compensated: ['ChargeCardUseCase', 'ReserveStockUseCase'],
+      compensationFailures: [],
+    });
+  });
+
+  it('should only compensate the steps that succeeded', async () => {
+    const result = await checkout().run({ sku: 'tea', card: 'declined' });
+
+    expect(result.getType()).toBe('PAYMENT_DECLINED');
+    expect(log).toEqual(['reserve tea', 'release r1']);
+    expect(result.context.saga.failedStep).toBe('ChargeCardUseCase');
+  });
+
+  it('should report compensation failures next to the original failure', async () => {
+    const result = await checkout(FailingReleaseUseCase).run({ sku: 'tea', card: 'declined' });
+
+    expect(result.getType()).toBe('PAYMENT_DECLINED');
+    expect(result.context.saga.compensated).toEqual([]);
+    expect(result.context.saga.compensationFailures).toEqual([
+      {
+        step: 'ReserveStockUseCase',
+        compensation: 'FailingReleaseUseCase',
+        failureType: 'UNAVAILABLE',
+        error: new Error('Stock service down'),
+      },
+    ]);
+  });
+
+  it('should build step and compensation inputs with the given mappers', async () => {
+    const saga = new Saga<string>()
+      .step(ChargeCardUseCase, {
+        input: card => ({ card }),
+        compensate: RefundPaymentUseCase,
+        compensateInput: (payment, { card }) => `${payment}@${card}`,
+      })
+      .step(ReserveStockUseCase, {
+        input: (_payment, card) => ({ sku: 'tea', card }),
+      })
+      .step(ChargeCardUseCase, { input: () => ({ card: 'declined' }) });
+
+    await saga.run('visa');
+
+    expect(log).toEqual(['charge visa', 'reserve tea', 'refund p1@visa']);
+  });
+
+  it('should turn a throwing mapper into an UNEXPECTED_ERROR failure', async () => {
+    const result = await new Saga<Cart>()
+      .step(ReserveStockUseCase, { compensate: ReleaseStockUseCase })
+      .step(ChargeCardUseCase, {
+        input: () => {
+          throw new Error('Bad mapping');
+        },
+      })
+      .run({ sku: 'tea', card: 'visa' });
+
+    expect(result.getType()).toBe('UNEXPECTED_ERROR');
+    expect(result.context.saga.compensated).toEqual(['ReserveStockUseCase']);
+  });
+});
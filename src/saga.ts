@@ -0,0 +1,163 @@
+import { Failure, type Result, ResultPromise, Success } from './result';
+import type { CallFailureType, UseCaseClass } from './use-case';
+
+/**
+ * How a saga step gets its input and how it is undone.
+ *
+ * - `input`: builds the step input from the previous step's output and the saga input
+ *   (the previous output is passed as is by default)
+ * - `compensate`: use case undoing the step once a later step fails
+ * - `compensateInput`: builds the compensation input from the step output and input
+ *   (the step output is passed as is by default)
+ */
+export type SagaStepOptions<I, P, SI, SO, CI> = {
+  input?: (previous: P, sagaInput: I) => SI;
+  compensate?: UseCaseClass<CI>;
+  compensateInput?: (output: SO, input: SI) => CI;
+};
+
+/**
+ * A compensation that did not succeed.
+ */
+export type CompensationFailure = {
+  step: string;
+  compensation: string;
+  failureType: string;
+  error: Error;
+};
+
+/**
+ * Recorded under `context.saga` of a failed saga: the step that failed, the steps whose
+ * compensation succeeded (in the order they ran) and the compensations that failed.
+ */
+export type SagaRecord = {
+  failedStep: string;
+  compensated: string[];
+  compensationFailures: CompensationFailure[];
+};
+
+type SagaStep = SagaStepOptions<any, any, any, any, any> & { useCase: UseCaseClass };
+
+type CompletedStep = { step: SagaStep; input: unknown; output: unknown };
+
+/**
+ * Runs use cases one after the other, passing each output to the next step. When a step
+ * fails, the compensations of the steps that already succeeded run in reverse order, and
+ * the saga returns the original failure with a SagaRecord under `context.saga`.
+ *
+ * @example
+ * const checkout = new Saga<Cart>('Checkout')
+ *   .step(ReserveStockUseCase, { compensate: ReleaseStockUseCase })
+ *   .step(ChargeCardUseCase, { compensate: RefundPaymentUseCase })
+ *   .step(CreateShipmentUseCase);
+ *
+ * const result = await checkout.run(cart);
+ */
+export class Saga<I, O = I, E extends Error = never, F extends string = never> {
+  private readonly steps: SagaStep[] = [];
+
+  constructor(readonly name = 'Saga') {}
+
+  /**
+   * Adds a step taking the previous step's output (or the saga input for the first step).
+   */
+  step<SO, SE extends Error, SF extends string, CI = SO>(
+    useCase: UseCaseClass<O, SO, SE, SF>,
+    options?: SagaStepOptions<I, O, O, SO, CI>,
+  ): Saga<I, SO, E | SE, F | SF>;
+  /**
+   * Adds a step whose input is built by `options.input`.
+   */
+  step<SI, SO, SE extends Error, SF extends string, CI = SO>(
+    useCase: UseCaseClass<SI, SO, SE, SF>,
+    options: SagaStepOptions<I, O, SI, SO, CI> & { input: (previous: O, sagaInput: I) => SI },
+  ): Saga<I, SO, E | SE, F | SF>;
+  step(useCase: UseCaseClass, options: SagaStepOptions<any, any, any, any, any> = {}): unknown {
+    this.steps.push({ ...options, useCase });
+    return this;
+  }
+
+  /**
+   * Runs the steps with the given input.
+   *
+   * @param input Input of the first step
+   * @returns A ResultPromise of the last step's output, with the contexts of every step merged
+   */
+  run(input: I): ResultPromise<O, E | Error, F | CallFailureType> {
+    return new ResultPromise(this.execute(input));
+  }
+
+  private async execute(input: I): Promise<Result<any, any, any>> {
+    const completed: CompletedStep[] = [];
+    let context: Record<string, any> = {};
+    let previous: unknown = input;
+
+    for (const step of this.steps) {
+      let stepInput: unknown;
+      let result: Result<any, any, any>;
+
+      try {
+        stepInput = step.input ? step.input(previous, input) : previous;
+        result = await step.useCase.call(stepInput);
+      } catch (error) {
+        result = thrownFailure(error, step.useCase.name);
+      }
+
+      context = { ...context, ...result.context };
+
+      if (result.isFailure()) {
+        const saga: SagaRecord = {
+          failedStep: step.useCase.name,
+          ...(await this.compensate(completed)),
+        };
+        return Failure(result.getError(), result.getType(), { ...context, saga }, this.name);
+      }
+
+      previous = result.getValue();
+      completed.push({ step, input: stepInput, output: previous });
+    }
+
+    return Success(previous, context, this.name);
+  }
+
+  private async compensate(completed: CompletedStep[]): Promise<Omit<SagaRecord, 'failedStep'>> {
+    const compensated: string[] = [];
+    const compensationFailures: CompensationFailure[] = [];
+
+    for (const { step, input, output } of [...completed].reverse()) {
+      if (!step.compensate) continue;
+
+      let result: Result<any, any, any>;
+      try {
+        const compensationInput = step.compensateInput
+          ? step.compensateInput(output, input)
+          : output;
+        result = await step.compensate.call(compensationInput);
+      } catch (error) {
+        result = thrownFailure(error, step.compensate.name);
+      }
+
+      if (result.isSuccess()) {
+        compensated.push(step.useCase.name);
+      } else {
+        compensationFailures.push({
+          step: step.useCase.name,
+          compensation: step.compensate.name,
+          failureType: result.getType(),
+          error: result.getError(),
+        });
+      }
+    }
+
+    return { compensated, compensationFailures };
+  }
+}
+
+const thrownFailure = (error: unknown, useCaseClass: string): Result<never> => {
+  return Failure(
+    error instanceof Error ? error : new Error(String(error)),
+    'UNEXPECTED_ERROR',
+    { rawError: error },
+    useCaseClass,
+  );
+};
@@ -0,0 +1,171 @@
+import { ValidationError } from './errors';
+import { Result, Success } from './result';
+import {
+  type InputSchema,
+  type StandardSchemaLike,
+  standardSchema,
+  validatedSchema,
+} from './schema';
+import { UseCase } from './use-case';
+
+type CreateUserInput = { name: string; email: string };
+
+const createUserSchema = validatedSchema<CreateUserInput>(input =>
+  input
+    .field('name', name => name.check(value => Boolean(value), 'Name is required', 'required'))
+    .field('email', email =>
+      email.check(value => String(value).includes('@'), 'Invalid email', 'format'),
+    ),
+);
+
+const execute = jest.fn();
+
+class CreateUserUseCase extends UseCase<CreateUserInput, string> {
+  static inputSchema = createUserSchema;
+
+  async execute(input: CreateUserInput): Promise<Result<string>> {
+    execute(input);
+    return Success(input.name);
+  }
+}
+
+beforeEach(() => {
+  execute.mockClear();
+});
+
+describe('Input schema', () => {
+  it('should call execute with valid input', async () => {
+    const result = await CreateUserUseCase.call({ name: 'Ana', email: 'ana@example.com' });
+
+    expect(result.getValue()).toBe('Ana');
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return every field issue without calling execute', async () => {
+    const result = await CreateUserUseCase.call({ name: '', email: 'invalid' });
+
+    expect(result.getType()).toBe('VALIDATION_ERROR');
+    expect(result.useCaseClass).toBe('CreateUserUseCase');
+    expect(result.getError()).toBeInstanceOf(ValidationError);
+    expect((result.getError() as ValidationError).issues).toEqual([
+      { path: 'name', message: 'Name is required', code: 'required' },
+      { path: 'email', message: 'Invalid email', code: 'format' },
+    ]);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should report a missing field as a field issue', async () => {
+    class SignUpUseCase extends CreateUserUseCase {
+      static inputSchema = validatedSchema<CreateUserInput>(input =>
+        input.field('email', email =>
+          email.check(value => value.includes('@'), 'Invalid email', 'format'),
+        ),
+      );
+    }
+
+    const result = await SignUpUseCase.call({ name: 'Ana' } as CreateUserInput);
+
+    expect(result.getType()).toBe('VALIDATION_ERROR');
+    expect((result.getError() as ValidationError).issues).toEqual([
+      { path: 'email', message: 'Invalid email', code: 'format' },
+    ]);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should pass the value returned by the schema to execute', async () => {
+    class TrimmedUseCase extends CreateUserUseCase {
+      static inputSchema: InputSchema<CreateUserInput> = {
+        validate: input => {
+          const { name, email } = input as CreateUserInput;
+          return { value: { name: name.trim(), email } };
+        },
+      };
+    }
+
+    const result = await TrimmedUseCase.call({ name: '  Ana  ', email: 'ana@example.com' });
+
+    expect(result.getValue()).toBe('Ana');
+    expect(result.context.TrimmedUseCase.getInput()).toEqual({
+      name: 'Ana',
+      email: 'ana@example.com',
+    });
+  });
+
+  it('should support asynchronous adapters', async () => {
+    class AsyncSchemaUseCase extends CreateUserUseCase {
+      static inputSchema: InputSchema<CreateUserInput> = {
+        validate: async () => ({
+          issues: [{ path: 'email', message: 'Email already taken', code: 'unique' }],
+        }),
+      };
+    }
+
+    const result = await AsyncSchemaUseCase.call({ name: 'Ana', email: 'ana@example.com' });
+
+    expect(result.getError().message).toBe('email: Email already taken');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should not validate use cases without a schema', async () => {
+    class NoSchemaUseCase extends UseCase<string, string> {
+      async execute(input: string): Promise<Result<string>> {
+        return Success(input);
+      }
+    }
+
+    const result = await NoSchemaUseCase.call('anything');
+
+    expect(result.getValue()).toBe('anything');
+  });
+
+  describe('standardSchema adapter', () => {
+    const schema: StandardSchemaLike<{ age: number }> = {
+      '~standard': {
+        validate: value => {
+          const age = Number((value as { age: unknown }).age);
+          return Number.isNaN(age)
+            ? { issues: [{ message: 'Expected number', path: [{ key: 'age' }] }] }
+            : { value: { age } };
+        },
+      },
+    };
+
+    it('should return the parsed value', async () => {
+      expect(await standardSchema(schema).validate({ age: '42' })).toEqual({ value: { age: 42 } });
+    });
+
+    it('should convert issues and their paths', async () => {
+      const nested: StandardSchemaLike<unknown> = {
+        '~standard': {
+          validate: async () => ({
+            issues: [
+              { message: 'Required', path: ['address', { key: 'lines' }, 0] },
+              { message: 'Invalid' },
+            ],
+          }),
+        },
+      };
+
+      expect(await standardSchema(nested).validate({})).toEqual({
+        issues: [
+          { path: 'address.lines.0', message: 'Required', code: 'invalid' },
+          { path: '', message: 'Invalid', code: 'invalid' },
+        ],
+      });
+    });
+
+    it('should plug into use cases', async () => {
+      class AgeUseCase extends UseCase<{ age: number }, number> {
+        static inputSchema = standardSchema(schema);
+
+        async execute(input: { age: number }): Promise<Result<number>> {
+          return Success(input.age);
+        }
+      }
+
+      expect((await AgeUseCase.call({ age: 'x' as unknown as number })).getType()).toBe(
+        'VALIDATION_ERROR',
+      );
+    });
+  });
+});
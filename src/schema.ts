@@ -0,0 +1,109 @@
+import { ValidationError } from './errors';
+import type { UseCaseMiddleware } from './middleware';
+import { Failure } from './result';
+import { type Validated, type ValidationIssue, validate } from './validation';
+
+/**
+ * Outcome of a schema check: the (possibly transformed) value, or the issues found.
+ */
+export type SchemaResult<I> = { value: I; issues?: undefined } | { issues: ValidationIssue[] };
+
+/**
+ * Adapter between a schema library and use case input validation.
+ * Implement it to plug in any library, or use validatedSchema() / standardSchema().
+ */
+export interface InputSchema<I> {
+  validate(input: unknown): SchemaResult<I> | Promise<SchemaResult<I>>;
+}
+
+/**
+ * Minimal shape of a Standard Schema (https://standardschema.dev), implemented by
+ * Zod, Valibot, ArkType and others.
+ */
+export interface StandardSchemaLike<I> {
+  readonly '~standard': {
+    validate(value: unknown): StandardSchemaLikeResult<I> | Promise<StandardSchemaLikeResult<I>>;
+  };
+}
+
+type StandardSchemaLikeResult<I> =
+  | { value: I; issues?: undefined }
+  | {
+      issues: ReadonlyArray<{
+        message: string;
+        path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+      }>;
+    };
+
+/**
+ * Built-in schema: validates the input with the Validated API.
+ *
+ * @example
+ * static inputSchema = validatedSchema<CreateUserInput>(input =>
+ *   input
+ *     .field('email', email => email.check(value => value.includes('@'), 'Invalid email', 'format'))
+ *     .field('name', name => name.check(Boolean, 'Name is required', 'required')),
+ * );
+ */
+export const validatedSchema = <I>(
+  rules: (input: Validated<I>) => Validated<I>,
+): InputSchema<I> => ({
+  validate(input): SchemaResult<I> {
+    const validated = rules(validate(input as I));
+    return validated.isValid() ? { value: validated.value } : { issues: validated.issues };
+  },
+});
+
+/**
+ * Adapts a Standard Schema. Issue paths are joined with dots and every issue gets
+ * the `invalid` code, as Standard Schema issues carry none.
+ */
+export const standardSchema = <I>(schema: StandardSchemaLike<I>): InputSchema<I> => ({
+  async validate(input): Promise<SchemaResult<I>> {
+    const result = await schema['~standard'].validate(input);
+
+    if (!result.issues) {
+      return { value: result.value };
+    }
+
+    return {
+      issues: result.issues.map(issue => ({
+        path: (issue.path ?? [])
+          .map(segment => String(typeof segment === 'object' ? segment.key : segment))
+          .join('.'),
+        message: issue.message,
+        code: 'invalid',
+      })),
+    };
+  },
+});
+
+/**
+ * Built-in middleware checking the input against the class's `inputSchema` right before
+ * `execute`. Invalid input returns a `VALIDATION_ERROR` failure listing every issue and
+ * `execute` is not called; valid input is passed on as returned by the schema.
+ */
+export const inputSchemaMiddleware: UseCaseMiddleware<unknown, unknown> = async (
+  input,
+  useCase,
+  next,
+) => {
+  const { inputSchema } = useCase.constructor as { inputSchema?: InputSchema<unknown> };
+
+  if (!inputSchema) {
+    return next();
+  }
+
+  const checked = await inputSchema.validate(input);
+
+  if (checked.issues) {
+    return Failure(
+      new ValidationError(checked.issues),
+      'VALIDATION_ERROR',
+      {},
+      useCase.constructor.name,
+    );
+  }
+
+  return next(checked.value);
+};
@@ -0,0 +1,174 @@
+import { Context } from './context';
+import { NotFoundError, ValidationError } from './errors';
+import { Failure, Result, ResultAggregateError, Success } from './result';
+import {
+  RESULT_WIRE_VERSION,
+  deserializeError,
+  registerErrorClass,
+  serializeError,
+} from './serialization';
+import { UseCase } from './use-case';
+
+class PaymentDeclinedError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+  ) {
+    super(message);
+    this.name = 'PaymentDeclinedError';
+  }
+}
+
+const roundTrip = <T>(result: Result<T, any, any>): Result<T> =>
+  Result.fromJSON<T>(JSON.stringify(result));
+
+describe('Result serialization', () => {
+  it('should write a versioned wire format', () => {
+    const json = Success({ id: 1 }, {}, 'GetUser').toJSON();
+
+    expect(json).toEqual({
+      version: RESULT_WIRE_VERSION,
+      resultType: 'SUCCESS',
+      isSuccess: true,
+      data: { id: 1 },
+      context: {},
+      useCaseClass: 'GetUser',
+    });
+  });
+
+  it('should round-trip a success', () => {
+    const result = roundTrip(Success({ id: 1, tags: ['a'] }, { requestId: 'r1' }, 'GetUser'));
+
+    expect(result).toBeInstanceOf(Result);
+    expect(result.isSuccess()).toBe(true);
+    expect(result.getType()).toBe('SUCCESS');
+    expect(result.getValue()).toEqual({ id: 1, tags: ['a'] });
+    expect(result.context).toEqual({ requestId: 'r1' });
+    expect(result.useCaseClass).toBe('GetUser');
+  });
+
+  it('should round-trip a failure with name, message, stack and failure type', () => {
+    const error = new TypeError('Bad input');
+    const result = roundTrip(Failure(error, 'BAD_INPUT'));
+
+    expect(result.isFailure()).toBe(true);
+    expect(result.getType()).toBe('BAD_INPUT');
+    expect(result.getError()).toBeInstanceOf(TypeError);
+    expect(result.getError().name).toBe('TypeError');
+    expect(result.getError().message).toBe('Bad input');
+    expect(result.getError().stack).toBe(error.stack);
+  });
+
+  it('should rehydrate the built-in domain errors with their fields', () => {
+    const issues = [{ path: 'email', message: 'Required', code: 'required' }];
+    const result = roundTrip(Failure(new ValidationError(issues), 'VALIDATION_ERROR'));
+    const error = result.getError() as ValidationError;
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.failureType).toBe('VALIDATION_ERROR');
+    expect(error.issues).toEqual(issues);
+    expect(error.details).toEqual(issues);
+  });
+
+  it('should preserve the cause chain', () => {
+    const root = new Error('Connection refused');
+    const middle = new NotFoundError('User not found', { cause: root });
+    const outer = Object.assign(new Error('Lookup failed'), { cause: middle });
+    const result = roundTrip(Failure(outer));
+    const error = result.getError() as Error & { cause: NotFoundError & { cause: Error } };
+
+    expect(error.cause).toBeInstanceOf(NotFoundError);
+    expect(error.cause.message).toBe('User not found');
+    expect(error.cause.cause).toBeInstanceOf(Error);
+    expect(error.cause.cause.message).toBe('Connection refused');
+  });
+
+  it('should keep unregistered error classes as errors with their name and fields', () => {
+    const error = deserializeError(
+      serializeError(
+        new (class OrphanError extends Error {
+          name = 'OrphanError';
+          retryable = true;
+        })('Lost'),
+      ),
+    ) as Error & { retryable: boolean };
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('OrphanError');
+    expect(error.message).toBe('Lost');
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should rehydrate registered custom error classes', () => {
+    registerErrorClass(PaymentDeclinedError);
+
+    const result = roundTrip(Failure(new PaymentDeclinedError('Declined', 'insufficient_funds')));
+    const error = result.getError() as PaymentDeclinedError;
+
+    expect(error).toBeInstanceOf(PaymentDeclinedError);
+    expect(error.code).toBe('insufficient_funds');
+  });
+
+  it('should rehydrate the errors of an aggregate failure', async () => {
+    const result = roundTrip(
+      await Result.allSettled({ a: Failure(new NotFoundError('Missing'), 'NOT_FOUND') }),
+    );
+    const error = result.getError() as ResultAggregateError;
+
+    expect(error).toBeInstanceOf(ResultAggregateError);
+    expect(error.failures[0].error).toBeInstanceOf(NotFoundError);
+  });
+
+  it('should write contexts as plain objects and read them back as Contexts', async () => {
+    class CreateUserUseCase extends UseCase<{ name: string }, { id: number }> {
+      async execute(input: { name: string }): Promise<Result<{ id: number }>> {
+        return Success({ id: input.name.length });
+      }
+    }
+
+    const original = await CreateUserUseCase.call({ name: 'Ana' });
+    const wire = JSON.parse(JSON.stringify(original));
+
+    expect(wire.context.CreateUserUseCase).toEqual({
+      _inputParams: { name: 'Ana' },
+      _outputParams: { id: 3 },
+      name: 'Ana',
+      id: 3,
+    });
+
+    const result = Result.fromJSON(wire);
+
+    expect(result.context.CreateUserUseCase).toBeInstanceOf(Context);
+    expect(result.context.CreateUserUseCase.getInput()).toEqual({ name: 'Ana' });
+    expect(result.context.CreateUserUseCase.id).toBe(3);
+  });
+
+  it('should serialize errors stored in the context', async () => {
+    const original = await Result.gen(function* () {
+      throw new RangeError('Out of range');
+    });
+    const result = roundTrip(original);
+
+    expect(result.getType()).toBe('UNEXPECTED_ERROR');
+    expect(result.context.rawError).toBeInstanceOf(RangeError);
+  });
+
+  it('should replace circular references', () => {
+    const node: Record<string, unknown> = { name: 'node' };
+    node.self = node;
+
+    const json = Success(1, { node }).toJSON();
+
+    expect(json.context).toEqual({ node: { name: 'node', self: '[Circular]' } });
+  });
+
+  it('should reject payloads with another version', () => {
+    const json = { ...Success(1).toJSON(), version: 2 };
+
+    expect(() => Result.fromJSON(json as any)).toThrow('Unsupported serialized Result version: 2');
+  });
+
+  it('should reject payloads that are not serialized Results', () => {
+    expect(() => Result.fromJSON('{"data":1}')).toThrow(TypeError);
+  });
+});
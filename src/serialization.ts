@@ -0,0 +1,252 @@
+import { Context } from './context';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  BulkheadFullError,
+  CancelledError,
+  CircuitOpenError,
+  ConflictError,
+  DependencyResolutionError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UnknownUseCaseError,
+  ValidationError,
+} from './errors';
+import type { ResultProps } from './result';
+
+/**
+ * Version of the wire format written by `Result.toJSON()`.
+ * `Result.fromJSON()` rejects payloads written with any other version.
+ */
+export const RESULT_WIRE_VERSION = 1;
+
+export type ErrorClass = new (...args: any[]) => Error;
+
+/**
+ * JSON-safe form of an Error. `properties` holds the error's own enumerable fields
+ * (failureType, details, custom fields…) and `cause` the serialized cause chain.
+ */
+export type SerializedError = {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  properties?: Record<string, unknown>;
+};
+
+/**
+ * JSON-safe form of a Result. Errors nested in `context` or in error properties are
+ * written as `{ $error: SerializedError }` so they can be rehydrated.
+ */
+export type SerializedResult<T = unknown> = {
+  version: typeof RESULT_WIRE_VERSION;
+  resultType: string;
+  isSuccess: boolean;
+  data?: T;
+  error?: SerializedError;
+  context: Record<string, unknown>;
+  useCaseClass: string;
+};
+
+const errorClasses = new Map<string, ErrorClass>();
+
+/**
+ * Registers an error class so deserialized errors with the same name are rebuilt as
+ * instances of it. Unregistered names are rebuilt as plain `Error`s keeping their name.
+ *
+ * @param errorClass Error class to rehydrate
+ * @param name Name written on the wire, defaults to the class name
+ */
+export const registerErrorClass = (errorClass: ErrorClass, name = errorClass.name): void => {
+  errorClasses.set(name, errorClass);
+};
+
+[
+  Error,
+  TypeError,
+  RangeError,
+  SyntaxError,
+  ReferenceError,
+  EvalError,
+  URIError,
+  ValidationError,
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  ConflictError,
+  DependencyResolutionError,
+  TimeoutError,
+  CancelledError,
+  CircuitOpenError,
+  RateLimitedError,
+  BulkheadFullError,
+  UnknownUseCaseError,
+].forEach(errorClass => registerErrorClass(errorClass));
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toPlain = (value: unknown, ancestors: Set<object>): unknown => {
+  if (typeof value !== 'object' || value === null) return value;
+  if (ancestors.has(value)) return '[Circular]';
+
+  ancestors.add(value);
+  try {
+    if (value instanceof Error) return { $error: toSerializedError(value, ancestors) };
+    if (Array.isArray(value)) return value.map(item => toPlain(item, ancestors));
+    if (value instanceof Context || Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, toPlain(item, ancestors)]),
+      );
+    }
+    return value;
+  } finally {
+    ancestors.delete(value);
+  }
+};
+
+const fromPlain = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(fromPlain);
+  if (!isPlainObject(value)) return value;
+  if (isPlainObject(value.$error)) return deserializeError(value.$error as SerializedError);
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fromPlain(item)]));
+};
+
+const ERROR_FIELDS = ['name', 'message', 'stack', 'cause'];
+
+const toSerializedError = (error: Error, ancestors: Set<object>): SerializedError => {
+  const cause = (error as { cause?: unknown }).cause;
+  const properties = Object.fromEntries(
+    Object.entries(error).filter(([key]) => !ERROR_FIELDS.includes(key)),
+  );
+  const serialized: SerializedError = { name: error.name, message: error.message };
+
+  if (error.stack !== undefined) serialized.stack = error.stack;
+  if (cause !== undefined) serialized.cause = toPlain(cause, ancestors);
+  if (Object.keys(properties).length > 0) {
+    serialized.properties = toPlain(properties, ancestors) as Record<string, unknown>;
+  }
+
+  return serialized;
+};
+
+/**
+ * Converts an error, its own fields and its cause chain into a JSON-safe object.
+ */
+export const serializeError = (error: Error): SerializedError => {
+  return toSerializedError(error, new Set());
+};
+
+/**
+ * Rebuilds an error from its serialized form, as an instance of the registered class
+ * with the same name (or of `Error`). The constructor is not called.
+ */
+export const deserializeError = (serialized: SerializedError): Error => {
+  const errorClass = errorClasses.get(serialized.name) ?? Error;
+  const error = Object.create(errorClass.prototype) as Error & Record<string, unknown>;
+
+  Object.defineProperty(error, 'message', {
+    value: serialized.message,
+    writable: true,
+    configurable: true,
+  });
+  Object.defineProperty(error, 'stack', {
+    value: serialized.stack,
+    writable: true,
+    configurable: true,
+  });
+  Object.assign(error, fromPlain(serialized.properties ?? {}));
+  if (error.name !== serialized.name) error.name = serialized.name;
+  if (serialized.cause !== undefined) error.cause = fromPlain(serialized.cause);
+
+  return error;
+};
+
+/**
+ * Converts a use case context into plain objects: Context instances keep their
+ * `_inputParams`, `_outputParams` and spread fields, errors are serialized.
+ */
+export const serializeContext = (context: Record<string, any>): Record<string, unknown> => {
+  return toPlain(context, new Set()) as Record<string, unknown>;
+};
+
+/**
+ * Rebuilds a serialized context, turning entries written from Context instances back
+ * into Contexts and serialized errors back into errors.
+ */
+export const deserializeContext = (context: Record<string, unknown>): Record<string, any> => {
+  return Object.fromEntries(
+    Object.entries(context).map(([key, value]) => {
+      if (isPlainObject(value) && '_inputParams' in value && '_outputParams' in value) {
+        return [key, new Context(fromPlain(value._inputParams), fromPlain(value._outputParams))];
+      }
+      return [key, fromPlain(value)];
+    }),
+  );
+};
+
+/**
+ * Writes the wire format of a Result.
+ */
+export const serializeResult = <T>(
+  props: Required<ResultProps<T, Error, string>>,
+): SerializedResult<T> => {
+  const serialized: SerializedResult<T> = {
+    version: RESULT_WIRE_VERSION,
+    resultType: props.resultType,
+    isSuccess: props.isSuccess,
+    context: serializeContext(props.context),
+    useCaseClass: props.useCaseClass,
+  };
+
+  if (props.isSuccess) {
+    serialized.data = props.data;
+  } else {
+    serialized.error = serializeError(props.error);
+  }
+
+  return serialized;
+};
+
+/**
+ * Reads the wire format of a Result, from a JSON string or an already parsed object.
+ *
+ * @throws TypeError if the payload is not a serialized Result or has another version
+ */
+export const deserializeResult = <T>(
+  json: string | SerializedResult<T>,
+): ResultProps<T, Error, string> => {
+  const payload: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+
+  if (
+    !isPlainObject(payload) ||
+    typeof payload.resultType !== 'string' ||
+    typeof payload.isSuccess !== 'boolean'
+  ) {
+    throw new TypeError('Invalid serialized Result');
+  }
+  if (payload.version !== RESULT_WIRE_VERSION) {
+    throw new TypeError(`Unsupported serialized Result version: ${String(payload.version)}`);
+  }
+
+  const context = isPlainObject(payload.context) ? deserializeContext(payload.context) : {};
+  const useCaseClass = typeof payload.useCaseClass === 'string' ? payload.useCaseClass : '';
+
+  if (payload.isSuccess) {
+    return {
+      resultType: 'SUCCESS',
+      isSuccess: true,
+      data: payload.data as T,
+      context,
+      useCaseClass,
+    };
+  }
+
+  const error = isPlainObject(payload.error)
+    ? deserializeError(payload.error as SerializedError)
+    : new Error('Unknown error');
+
+  return { resultType: payload.resultType, isSuccess: false, error, context, useCaseClass };
+};
@@ -0,0 +1,121 @@
+import type { UseCaseExecution } from './middleware';
+import { Result, Success } from './result';
+import { inFlightCount } from './single-flight';
+import { UseCase } from './use-case';
+
+type Pending = { resolve: (result: Result<number>) => void; signal?: AbortSignal };
+
+const pending: Pending[] = [];
+
+class GetReportUseCase extends UseCase<{ id: string }, number> {
+  static singleFlight = true;
+
+  execute(input: { id: string }, execution?: UseCaseExecution): Promise<Result<number>> {
+    return new Promise(resolve => pending.push({ resolve, signal: execution?.signal }));
+  }
+}
+
+const settle = (value: number): void => {
+  pending.splice(0).forEach(({ resolve }) => resolve(Success(value)));
+};
+
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+afterEach(() => {
+  settle(0);
+});
+
+describe('Single-flight', () => {
+  it('should run execute once for concurrent calls with an equal input', async () => {
+    const calls = [
+      GetReportUseCase.call({ id: 'a' }),
+      GetReportUseCase.call({ id: 'a' }),
+      GetReportUseCase.call({ id: 'a' }),
+    ];
+    await flush();
+
+    expect(pending).toHaveLength(1);
+    expect(inFlightCount(GetReportUseCase)).toBe(1);
+
+    settle(42);
+    const results = await Promise.all(calls);
+
+    expect(results.map(result => result.getValue())).toEqual([42, 42, 42]);
+    expect(inFlightCount(GetReportUseCase)).toBe(0);
+  });
+
+  it('should give every caller its own Result and context', async () => {
+    const first = GetReportUseCase.call({ id: 'a' });
+    const second = GetReportUseCase.call({ id: 'a' });
+    await flush();
+    settle(1);
+
+    const [a, b] = await Promise.all([first, second]);
+
+    expect(a).not.toBe(b);
+    expect(a.context).not.toBe(b.context);
+    expect(a.context).toEqual(b.context);
+  });
+
+  it('should run different inputs separately', async () => {
+    const calls = [GetReportUseCase.call({ id: 'a' }), GetReportUseCase.call({ id: 'b' })];
+    await flush();
+
+    expect(pending).toHaveLength(2);
+
+    settle(1);
+    await Promise.all(calls);
+  });
+
+  it('should run again once the shared execution finished', async () => {
+    const first = GetReportUseCase.call({ id: 'a' });
+    await flush();
+    settle(1);
+    await first;
+
+    const second = GetReportUseCase.call({ id: 'a' });
+    await flush();
+
+    expect(pending).toHaveLength(1);
+
+    settle(2);
+    expect((await second).getValue()).toBe(2);
+  });
+
+  it('should keep the shared execution running when one caller aborts', async () => {
+    const controller = new AbortController();
+    const leader = GetReportUseCase.call({ id: 'a' }, { signal: controller.signal });
+    const follower = GetReportUseCase.call({ id: 'a' });
+    await flush();
+
+    controller.abort();
+    const aborted = await leader;
+    const sharedSignal = pending[0].signal;
+    settle(7);
+
+    expect(aborted.getType()).toBe('CANCELLED');
+    expect(sharedSignal?.aborted).toBe(false);
+    expect((await follower).getValue()).toBe(7);
+  });
+
+  it('should build keys with the configured key function', async () => {
+    class SearchUseCase extends UseCase<{ query: string; page: number }, number> {
+      static singleFlight = { key: ({ query }: { query: string }): string => query };
+
+      execute(): Promise<Result<number>> {
+        return new Promise(resolve => pending.push({ resolve }));
+      }
+    }
+
+    const calls = [
+      SearchUseCase.call({ query: 'tea', page: 1 }),
+      SearchUseCase.call({ query: 'tea', page: 2 }),
+    ];
+    await flush();
+
+    expect(pending).toHaveLength(1);
+
+    settle(3);
+    await Promise.all(calls);
+  });
+});
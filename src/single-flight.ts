@@ -0,0 +1,64 @@
+import { stableKey } from './cache';
+import type { UseCaseExecution, UseCaseMiddleware } from './middleware';
+import type { Result } from './result';
+
+/**
+ * Single-flight configuration.
+ *
+ * - `key`: builds the key identifying equal calls from the input. By default the input is
+ *   serialized to JSON with sorted object keys
+ */
+export type SingleFlightPolicy<I = any> = {
+  key?: (input: I) => string;
+};
+
+type InFlight = Map<string, Promise<Result<any, any, any>>>;
+
+const inFlightByClass = new WeakMap<object, InFlight>();
+
+// The shared execution outlives any single caller, so it never sees their signals
+const detachedExecution = (): UseCaseExecution => ({ signal: new AbortController().signal });
+
+/**
+ * Number of shared executions of a use case class currently running.
+ */
+export const inFlightCount = (useCaseClass: object): number => {
+  return inFlightByClass.get(useCaseClass)?.size ?? 0;
+};
+
+/**
+ * Built-in middleware sharing one execution between concurrent calls of a class with
+ * `singleFlight` and an equal key. Every caller gets its own Result with a copy of the
+ * context. Callers aborting their call stop waiting; the shared execution keeps running
+ * for the others.
+ */
+export const singleFlightMiddleware: UseCaseMiddleware<unknown, unknown> = async (
+  input,
+  useCase,
+  next,
+) => {
+  const useCaseClass = useCase.constructor as { singleFlight?: SingleFlightPolicy | boolean };
+  const policy = useCaseClass.singleFlight;
+
+  if (!policy) {
+    return next();
+  }
+
+  let inFlight = inFlightByClass.get(useCaseClass);
+  if (!inFlight) {
+    inFlight = new Map();
+    inFlightByClass.set(useCaseClass, inFlight);
+  }
+
+  const key = ((policy !== true && policy.key) || stableKey)(input);
+  let shared = inFlight.get(key);
+
+  if (!shared) {
+    const calls = inFlight;
+    shared = next(input, detachedExecution()).finally(() => calls.delete(key));
+    inFlight.set(key, shared);
+  }
+
+  const result = await shared;
+  return result.withContext({});
+};
@@ -0,0 +1,133 @@
+import { ConflictError } from './errors';
+import { Failure, Result, Success } from './result';
+import { UseCase } from './use-case';
+import { currentTransaction, InMemoryTransactionManager, withUnitOfWork } from './unit-of-work';
+
+let database = new InMemoryTransactionManager<string>();
+
+class ReserveStockUseCase extends UseCase<string, string> {
+  async execute(sku: string): Promise<Result<string>> {
+    if (sku === 'sold-out') throw new ConflictError('Out of stock');
+    database.record(`reserve ${sku}`);
+    return Success(sku);
+  }
+}
+
+class PlaceOrderUseCase extends UseCase<string[], number> {
+  async execute(skus: string[]): Promise<Result<number>> {
+    database.record('order');
+
+    for (const sku of skus) {
+      const reserved = await ReserveStockUseCase.call(sku);
+      if (reserved.isFailure()) return Failure(reserved.getError(), reserved.getType());
+    }
+
+    return Success(skus.length);
+  }
+}
+
+beforeEach(() => {
+  database = new InMemoryTransactionManager<string>();
+  ReserveStockUseCase.transactionManager = database;
+  PlaceOrderUseCase.transactionManager = database;
+});
+
+describe('Unit of work', () => {
+  it('should commit the transaction when execute succeeds', async () => {
+    await ReserveStockUseCase.call('tea');
+
+    expect(database.transactions.map(transaction => transaction.state)).toEqual(['committed']);
+    expect(database.committed).toEqual(['reserve tea']);
+  });
+
+  it('should roll back when execute returns a failure', async () => {
+    class CancelOrderUseCase extends UseCase<string, void> {
+      static transactionManager = database;
+
+      async execute(): Promise<Result<void>> {
+        database.record('cancel');
+        return Failure(new Error('Already shipped'), 'ALREADY_SHIPPED');
+      }
+    }
+
+    const result = await CancelOrderUseCase.call('o1');
+
+    expect(result.getType()).toBe('ALREADY_SHIPPED');
+    expect(database.transactions[0].state).toBe('rolled-back');
+    expect(database.committed).toEqual([]);
+  });
+
+  it('should roll back when execute throws', async () => {
+    const result = await ReserveStockUseCase.call('sold-out');
+
+    expect(result.getType()).toBe('CONFLICT');
+    expect(database.transactions[0].state).toBe('rolled-back');
+  });
+
+  it('should roll back when the call times out before execute succeeds', async () => {
+    class SlowWriteUseCase extends UseCase<void, void> {
+      static transactionManager = database;
+
+      async execute(): Promise<Result<void>> {
+        database.record('write');
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return Success(undefined);
+      }
+    }
+
+    const result = await SlowWriteUseCase.call(undefined, { timeoutMs: 5 });
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(result.getType()).toBe('TIMEOUT');
+    expect(database.transactions[0].state).toBe('rolled-back');
+    expect(database.committed).toEqual([]);
+  });
+
+  it('should let nested use cases join the outer unit of work', async () => {
+    const result = await PlaceOrderUseCase.call(['tea', 'mug']);
+
+    expect(result.getValue()).toBe(2);
+    expect(database.transactions).toHaveLength(1);
+    expect(database.committed).toEqual(['order', 'reserve tea', 'reserve mug']);
+  });
+
+  it('should roll back the changes of nested use cases with the outer unit of work', async () => {
+    const result = await PlaceOrderUseCase.call(['tea', 'sold-out']);
+
+    expect(result.getType()).toBe('CONFLICT');
+    expect(database.transactions).toHaveLength(1);
+    expect(database.transactions[0].state).toBe('rolled-back');
+    expect(database.committed).toEqual([]);
+  });
+
+  it('should keep concurrent units of work apart', async () => {
+    await Promise.all([ReserveStockUseCase.call('tea'), ReserveStockUseCase.call('mug')]);
+
+    expect(database.transactions.map(transaction => transaction.changes)).toEqual([
+      ['reserve tea'],
+      ['reserve mug'],
+    ]);
+  });
+
+  describe('withUnitOfWork', () => {
+    it('should expose the transaction while the operation runs', async () => {
+      let seen: unknown;
+
+      await withUnitOfWork(database, async () => {
+        seen = currentTransaction(database);
+        return Success(undefined);
+      });
+
+      expect(seen).toBe(database.transactions[0]);
+      expect(currentTransaction(database)).toBeUndefined();
+    });
+
+    it('should roll back and rethrow when the operation rejects', async () => {
+      const error = new Error('Connection lost');
+      const rollback = jest.spyOn(database, 'rollback');
+
+      await expect(withUnitOfWork(database, () => Promise.reject(error))).rejects.toBe(error);
+      expect(rollback).toHaveBeenCalledWith(database.transactions[0], error);
+    });
+  });
+});
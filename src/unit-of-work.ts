@@ -0,0 +1,146 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { abortReason } from './cancellation';
+import type { UseCaseMiddleware } from './middleware';
+import type { Result } from './result';
+
+/**
+ * Opens and ends transactions, for instance around a database connection.
+ * `T` is whatever the repositories need to take part in the transaction.
+ */
+export interface TransactionManager<T = unknown> {
+  begin(): T | Promise<T>;
+  commit(transaction: T): void | Promise<void>;
+  rollback(transaction: T, reason: unknown): void | Promise<void>;
+}
+
+type OpenTransactions = Map<TransactionManager<any>, unknown>;
+
+const openTransactions = new AsyncLocalStorage<OpenTransactions>();
+
+/**
+ * Transaction of the unit of work running for this manager, if any.
+ * Use it in `execute` (or the repositories it calls) to take part in the transaction.
+ */
+export const currentTransaction = <T>(manager: TransactionManager<T>): T | undefined => {
+  return openTransactions.getStore()?.get(manager) as T | undefined;
+};
+
+/**
+ * Runs an operation inside a unit of work: the transaction opens before it, commits when it
+ * returns a success and rolls back when it returns a failure or throws. Inside an open unit
+ * of work of the same manager, the operation joins it instead; the outermost one decides
+ * whether everything is committed. Once `signal` is aborted, the caller has already received
+ * a `TIMEOUT` or `CANCELLED` failure, so the transaction rolls back even if the operation
+ * goes on to succeed.
+ *
+ * @param manager Transaction manager
+ * @param operation Operation running inside the transaction
+ * @param signal Signal of the execution, see UseCaseExecution
+ * @returns The Result of the operation
+ */
+export const withUnitOfWork = async <R extends Result<any, any, any>>(
+  manager: TransactionManager<any>,
+  operation: () => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R> => {
+  const open = openTransactions.getStore();
+
+  if (open?.has(manager)) {
+    return operation();
+  }
+
+  const transaction = await manager.begin();
+  const transactions: OpenTransactions = new Map(open);
+  transactions.set(manager, transaction);
+
+  let result: R;
+  try {
+    result = await openTransactions.run(transactions, operation);
+  } catch (error) {
+    await manager.rollback(transaction, error);
+    throw error;
+  }
+
+  if (result.isFailure()) {
+    await manager.rollback(transaction, result.getError());
+  } else if (signal?.aborted) {
+    await manager.rollback(transaction, abortReason(signal));
+  } else {
+    await manager.commit(transaction);
+  }
+
+  return result;
+};
+
+/**
+ * Transaction opened by an InMemoryTransactionManager.
+ */
+export class InMemoryTransaction<C = unknown> {
+  state: 'open' | 'committed' | 'rolled-back' = 'open';
+  readonly changes: C[] = [];
+
+  constructor(readonly id: number) {}
+}
+
+/**
+ * Transaction manager keeping transactions in memory, for tests. Every transaction records
+ * its state and the changes registered with `record()`; only committed changes are kept in
+ * `committed`.
+ */
+export class InMemoryTransactionManager<C = unknown>
+  implements TransactionManager<InMemoryTransaction<C>>
+{
+  readonly transactions: InMemoryTransaction<C>[] = [];
+  readonly committed: C[] = [];
+
+  begin(): InMemoryTransaction<C> {
+    const transaction = new InMemoryTransaction<C>(this.transactions.length + 1);
+    this.transactions.push(transaction);
+    return transaction;
+  }
+
+  commit(transaction: InMemoryTransaction<C>): void {
+    transaction.state = 'committed';
+    this.committed.push(...transaction.changes);
+  }
+
+  rollback(transaction: InMemoryTransaction<C>): void {
+    transaction.state = 'rolled-back';
+  }
+
+  /**
+   * Registers a change in the current transaction.
+   *
+   * @throws Error if no unit of work of this manager is running
+   */
+  record(change: C): void {
+    const transaction = currentTransaction(this);
+
+    if (!transaction) {
+      throw new Error('No transaction is open');
+    }
+
+    transaction.changes.push(change);
+  }
+}
+
+/**
+ * Built-in middleware running `execute` in a unit of work of the class's
+ * `transactionManager`, rolled back when the execution's signal is aborted.
+ */
+export const unitOfWorkMiddleware: UseCaseMiddleware<unknown, unknown> = (
+  input,
+  useCase,
+  next,
+  execution,
+) => {
+  const { transactionManager } = useCase.constructor as {
+    transactionManager?: TransactionManager<any>;
+  };
+
+  if (!transactionManager) {
+    return next();
+  }
+
+  return withUnitOfWork(transactionManager, () => next(), execution?.signal);
+};
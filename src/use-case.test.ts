@@ -1,6 +1,7 @@
 import { UseCase } from './use-case';
 import { Result, Success, Failure } from './result';
 import { Context } from './context';
+import { NotFoundError, RateLimitedError } from './errors';
 
 // Mock implementations for testing
 class SuccessUseCase extends UseCase<string, number> {
@@ -15,6 +16,18 @@ class FailureUseCase extends UseCase<string, number> {
   }
 }
 
+class UserNotFoundError extends Error {
+  constructor(readonly userId: string) {
+    super(`User ${userId} not found`);
+  }
+}
+
+class TypedFailureUseCase extends UseCase<string, number, UserNotFoundError> {
+  async execute(input?: string): Promise<Result<number, UserNotFoundError>> {
+    return Failure(new UserNotFoundError(input ?? ''), 'NOT_FOUND');
+  }
+}
+
 class ThrowingUseCase extends UseCase<string, number> {
   async execute(): Promise<Result<number>> {
     throw new Error('Execution error');
@@ -83,6 +96,65 @@ describe('UseCase Abstract Class', () => {
       expect(result.getType()).toBe('UNEXPECTED_ERROR');
     });
 
+    it('should preserve the declared error type', async () => {
+      const useCase = new TypedFailureUseCase();
+
+      const result = await useCase.call('42');
+
+      const error = result.getError();
+      expect(result.getType()).toBe('NOT_FOUND');
+      expect(error instanceof UserNotFoundError && error.userId).toBe('42');
+    });
+
+    it('should add the failure types of the pipeline to the declared ones', async () => {
+      class LookupUseCase extends UseCase<string, number, Error, 'NOT_FOUND'> {
+        async execute(input?: string): Promise<Result<number, Error, 'NOT_FOUND'>> {
+          if (input === 'boom') throw new Error('Boom');
+          if (input === 'busy') throw new RateLimitedError('Too many lookups');
+          return Failure(new Error('Missing'), 'NOT_FOUND');
+        }
+      }
+
+      const match = (input: string): Promise<string> =>
+        new LookupUseCase().call(input).match({
+          SUCCESS: () => 'found',
+          NOT_FOUND: () => 'missing',
+          UNEXPECTED_ERROR: error => `unexpected: ${error.message}`,
+          RATE_LIMITED: () => 'busy',
+          _: error => `other: ${error.message}`,
+        });
+
+      expect(await match('boom')).toBe('unexpected: Boom');
+      expect(await match('busy')).toBe('busy');
+    });
+
+    it('should use the failure type of thrown domain errors', async () => {
+      class ThrowingDomainErrorUseCase extends UseCase<string, number> {
+        async execute(): Promise<Result<number>> {
+          throw new NotFoundError('Product not found');
+        }
+      }
+
+      const result = await new ThrowingDomainErrorUseCase().call('test');
+
+      expect(result.getType()).toBe('NOT_FOUND');
+      expect(result.getError()).toBeInstanceOf(NotFoundError);
+      expect(result.context).toHaveProperty('rawError');
+    });
+
+    it('should not carry the context of the use cases called from execute', async () => {
+      class ShowLengthUseCase extends UseCase<string, number> {
+        async execute(input?: string): Promise<Result<number>> {
+          return SuccessUseCase.call(input).withContext({ cache: { hit: true } });
+        }
+      }
+
+      const result = await ShowLengthUseCase.call('test');
+
+      expect(result.getValue()).toBe(4);
+      expect(Object.keys(result.context)).toEqual(['ShowLengthUseCase']);
+    });
+
     it('should handle undefined input', async () => {
       const useCase = new SuccessUseCase();
 
@@ -116,6 +188,22 @@ describe('UseCase Abstract Class', () => {
       expect(result.getError().message).toBe('Execution error');
     });
 
+    it('should infer the input, output and error types from execute', async () => {
+      const length: number = (await SuccessUseCase.call('test')).getValue();
+      const error = (await TypedFailureUseCase.call('42')).getError();
+
+      expect(length).toBe(4);
+      expect(error instanceof UserNotFoundError && error.userId).toBe('42');
+      // @ts-expect-error the input is a string
+      expect(() => TypedFailureUseCase.call(42)).not.toThrow();
+    });
+
+    it('should still accept the input and output types as type arguments', async () => {
+      const result = await SuccessUseCase.call<string, number>('test');
+
+      expect(result.getValue()).toBe(4);
+    });
+
     it('should throw error when called directly on abstract UseCase class', async () => {
       // Tentativa de chamar o método estático diretamente na classe abstrata
       await expect(UseCase.call()).rejects.toThrow(
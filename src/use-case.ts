@@ -1,86 +1,270 @@
+import { type Bulkhead, bulkheadMiddleware } from './bulkhead';
+import { type CachePolicy, cacheMiddleware } from './cache';
+import { type CallOptions, cancellationMiddleware, createCallSignal } from './cancellation';
+import { type CircuitBreaker, circuitBreakerMiddleware } from './circuit-breaker';
+import {
+  COMPOSITE_CLASS,
+  compositeName,
+  type ComposedUseCaseClass,
+  type Parallel,
+  type ParallelChildren,
+  type ParallelOptions,
+  type PipeStep,
+  type Piped,
+  type Routed,
+  runParallel,
+  runPipe,
+  runRoute,
+  type StepOutput,
+  type UseCaseRoutes,
+} from './composition';
 import { Context } from './context';
+import { resolveUseCase } from './container';
 import { getDebugLogger } from './debug';
-import { Failure, type Result, ResultPromise, Success } from './result';
+import { DependencyResolutionError, DomainError, type DomainFailureType } from './errors';
+import {
+  debugMiddleware,
+  getMiddlewares,
+  type UseCaseExecution,
+  type UseCaseMiddleware,
+} from './middleware';
+import { type RateLimiter, rateLimiterMiddleware } from './rate-limiter';
+import { Failure, type Result, ResultPromise, Success, type UnexpectedFailureType } from './result';
+import { type RetryPolicy, retryMiddleware } from './retry';
+import { type InputSchema, inputSchemaMiddleware } from './schema';
+import { type SingleFlightPolicy, singleFlightMiddleware } from './single-flight';
+import { type TransactionManager, unitOfWorkMiddleware } from './unit-of-work';
 
-export interface IUseCase<I, O> {
-  execute(input?: I): Promise<Result<O>>;
+/**
+ * Failure types `call()` can return besides those declared by `execute`: `UNEXPECTED_ERROR`
+ * for thrown errors, and the failure types of the built-in DomainErrors, which thrown
+ * DomainErrors keep and the pipeline (input schema, timeouts, rate limiter, bulkhead,
+ * circuit breaker, resolver) returns.
+ */
+export type CallFailureType = UnexpectedFailureType | DomainFailureType;
+
+export interface IUseCase<I, O, E extends Error = Error, F extends string = string> {
+  execute(input?: I, execution?: UseCaseExecution): Promise<Result<O, E, F>>;
 }
 
 // Classe base concreta que implementa a lógica comum
-export class BaseUseCase<I, O> implements IUseCase<I, O> {
+export class BaseUseCase<I, O, E extends Error = Error, F extends string = string>
+  implements IUseCase<I, O, E, F>
+{
+  /**
+   * Middlewares run around `execute` for this class (and its subclasses), after the
+   * global ones registered with useMiddleware().
+   */
+  static middlewares: UseCaseMiddleware[] = [];
+
+  /**
+   * Schema the input is checked against before `execute` runs. Invalid input returns a
+   * `VALIDATION_ERROR` failure and `execute` is not called.
+   */
+  static inputSchema?: InputSchema<unknown>;
+
+  /**
+   * Retries `execute` on transient failures. See RetryPolicy for the defaults.
+   */
+  static retryPolicy?: RetryPolicy;
+
+  /**
+   * Stops calling `execute` while the dependency it guards keeps failing, returning
+   * `CIRCUIT_OPEN` failures instead. Shared by every instance of the class.
+   */
+  static circuitBreaker?: CircuitBreaker;
+
+  /**
+   * Reuses the Results of earlier calls with the same input. Only for idempotent use
+   * cases; see invalidateCache() to drop entries after a write.
+   */
+  static cachePolicy?: CachePolicy;
+
+  /**
+   * Shares one execution between concurrent calls with an equal input (or key).
+   */
+  static singleFlight?: SingleFlightPolicy | boolean;
+
+  /**
+   * Limits how often `execute` runs. Rejected calls return `RATE_LIMITED` failures.
+   */
+  static rateLimiter?: RateLimiter;
+
+  /**
+   * Limits how many executions run at once. Calls that cannot get a slot return
+   * `BULKHEAD_FULL` failures.
+   */
+  static bulkhead?: Bulkhead;
+
+  /**
+   * Runs `execute` in a unit of work: commits on success, rolls back on failure. Use cases
+   * called from `execute` with the same manager join it.
+   */
+  static transactionManager?: TransactionManager<any>;
+
   // Método que deve ser sobrescrito
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  async execute(input?: I): Promise<Result<O>> {
+  async execute(input?: I, execution?: UseCaseExecution): Promise<Result<O, E, F>> {
     throw new Error('Method not implemented. Override this method in a subclass.');
   }
 
   /**
    * Executes the use case and returns a ResultPromise for chainable operations.
    *
+   * Errors thrown by `execute` are surfaced as `UNEXPECTED_ERROR` failures, except
+   * DomainErrors, which keep their own failure type. The Result's failure types are those
+   * declared by `execute` plus CallFailureType.
+   *
+   * With `options.signal` or `options.timeoutMs`, the call ends with a `CANCELLED` or
+   * `TIMEOUT` failure as soon as the signal is aborted or the time runs out. `execute`
+   * receives the signal to stop its own work, and later and_then() steps on the returned
+   * ResultPromise are skipped once the caller's signal is aborted.
+   *
    * @param params Input parameters for the use case
-   * @returns ResultPromise<O>
+   * @param options Cancellation signal and timeout
+   * @returns ResultPromise<O, E | Error, F | CallFailureType>
    */
-  call(params?: I): ResultPromise<O> {
-    const resultPromise = new ResultPromise<O>(this._executeWithErrorHandling(params));
+  call(params?: I, options?: CallOptions): ResultPromise<O, E | Error, F | CallFailureType> {
+    const resultPromise = new ResultPromise(
+      this._executeWithErrorHandling(params, options),
+      options?.signal,
+    );
     return resultPromise;
   }
 
   /**
    * Internal method to execute the use case with error handling.
-   * This is used by the call method to create a Promise<Result<O>>.
+   * Runs the global middlewares, the class middlewares, the debug middleware, the cache,
+   * the cancellation race, single-flight sharing, the rate limiter, the bulkhead, the
+   * circuit breaker, the retry policy, the input schema check and the unit of work around
+   * `execute`.
+   * Errors thrown at any step come back to the previous step as failures.
    */
-  private async _executeWithErrorHandling(params?: I): Promise<Result<O>> {
-    const debugLogger = getDebugLogger();
-    const useCaseClass = this.constructor.name;
-
-    // Start debug timing
-    debugLogger.startTiming(useCaseClass, params);
+  private async _executeWithErrorHandling(
+    params?: I,
+    options?: CallOptions,
+  ): Promise<Result<O, E | Error, F | CallFailureType>> {
+    const middlewares = [
+      ...getMiddlewares(),
+      ...(this.constructor as typeof BaseUseCase).middlewares,
+      debugMiddleware,
+      cacheMiddleware,
+      cancellationMiddleware,
+      singleFlightMiddleware,
+      rateLimiterMiddleware,
+      bulkheadMiddleware,
+      circuitBreakerMiddleware,
+      retryMiddleware,
+      inputSchemaMiddleware,
+      unitOfWorkMiddleware,
+    ];
+    const callSignal = createCallSignal(options);
+    const execution: UseCaseExecution = { signal: callSignal.signal };
 
-    try {
-      const result = await this.execute(params);
+    const dispatch = async (
+      index: number,
+      input: I | undefined,
+      execution: UseCaseExecution,
+    ): Promise<Result<O, E | Error, F | CallFailureType>> => {
+      try {
+        const middleware = middlewares[index];
 
-      if (result.isFailure()) {
-        // Log failure
-        debugLogger.logFailure(useCaseClass, result.getError(), result.getType(), result.context);
+        if (!middleware) {
+          return await this._execute(input, execution);
+        }
 
-        return Failure(result.getError(), result.getType(), result.context, useCaseClass);
+        return await middleware(
+          input,
+          this,
+          (...args: [I?, UseCaseExecution?]) =>
+            dispatch(index + 1, args.length > 0 ? args[0] : input, args[1] ?? execution),
+          execution,
+        );
+      } catch (error) {
+        return this._thrownFailure(error);
       }
+    };
+
+    try {
+      return await dispatch(0, params, execution);
+    } finally {
+      callSignal.dispose();
+    }
+  }
+
+  /**
+   * Runs `execute` and tags its Result with the use case class. Successes get a
+   * Context holding the input and output; composites also keep the contexts of their
+   * steps, which `execute` returned.
+   */
+  private async _execute(
+    params: I | undefined,
+    execution: UseCaseExecution,
+  ): Promise<Result<O, E | Error, F | CallFailureType>> {
+    const useCaseClass = this.constructor.name;
+    const { [COMPOSITE_CLASS]: composite } = this.constructor as { [COMPOSITE_CLASS]?: true };
+    const result = await this.execute(params, execution);
 
-      const successResult = Success(
-        result.getValue(),
-        {
-          [useCaseClass]: new Context<I, O>(params as I, result.getValue()),
-        },
+    if (result.isFailure()) {
+      return Failure<O, E | Error, F | CallFailureType>(
+        result.getError(),
+        result.getType() as F,
+        result.context,
         useCaseClass,
       );
+    }
 
-      // Log success
-      debugLogger.logSuccess(useCaseClass, result.getValue(), successResult.context);
-
-      return successResult;
-    } catch (error) {
-      const errorObj = error instanceof Error ? error : new Error(String(error));
+    return Success<O, E | Error, F | CallFailureType>(
+      result.getValue(),
+      {
+        ...(composite ? result.context : {}),
+        [useCaseClass]: new Context<I, O>(params as I, result.getValue()),
+      },
+      useCaseClass,
+    );
+  }
 
-      // Log unexpected error
-      debugLogger.logFailure(useCaseClass, errorObj, 'UNEXPECTED_ERROR', { rawError: error });
+  private _thrownFailure(error: unknown): Result<O, E | Error, F | CallFailureType> {
+    const errorObj = error instanceof Error ? error : new Error(String(error));
+    // DomainErrors carry their own failure type; anything else is unexpected
+    const failureType = error instanceof DomainError ? error.failureType : 'UNEXPECTED_ERROR';
 
-      return Failure(errorObj, 'UNEXPECTED_ERROR', { rawError: error }, useCaseClass);
-    }
+    return Failure<O, E | Error, F | CallFailureType>(
+      errorObj,
+      failureType as F,
+      { rawError: error },
+      this.constructor.name,
+    );
   }
 }
 
 // Classe abstrata para manter compatibilidade com código existente
-export abstract class UseCase<I, O> extends BaseUseCase<I, O> {
-  abstract execute(input?: I): Promise<Result<O>>;
+export abstract class UseCase<
+  I,
+  O,
+  E extends Error = Error,
+  F extends string = string,
+> extends BaseUseCase<I, O, E, F> {
+  abstract execute(input?: I, execution?: UseCaseExecution): Promise<Result<O, E, F>>;
 
   /**
-   * Static method to create an instance of the use case and call it.
-   * Returns a ResultPromise for chainable operations.
+   * Static method to obtain an instance of the use case and call it.
+   * The instance comes from the registered resolver (see setUseCaseResolver()), which
+   * calls the constructor without arguments by default. When it cannot be built the
+   * result is a `DEPENDENCY_RESOLUTION_ERROR` failure.
+   * `I`, `O`, `E` and `F` are inferred from the class's `execute`.
    *
    * @param params Input parameters for the use case
-   * @returns ResultPromise<Y>
+   * @param options Cancellation signal and timeout, see BaseUseCase.call()
+   * @returns ResultPromise<O, E | Error, F | CallFailureType>
    */
-  static call<X, Y>(params?: X): ResultPromise<Y> {
+  static call<I, O, E extends Error = Error, F extends string = string>(
+    this: abstract new (...args: any[]) => {
+      execute(input: I, execution?: UseCaseExecution): Promise<Result<O, E, F>>;
+    },
+    params?: I,
+    options?: CallOptions,
+  ): ResultPromise<O, E | Error, F | CallFailureType> {
     // Verificar se está sendo chamado diretamente na classe abstrata
     if (this === UseCase) {
       return new ResultPromise(
@@ -89,8 +273,171 @@ export abstract class UseCase<I, O> extends BaseUseCase<I, O> {
     }
 
     // Usar type assertion para contornar a verificação de tipo
-    const UseCaseClass = this as unknown as new () => UseCase<X, Y>;
-    const instance = new UseCaseClass();
-    return instance.call(params);
+    const UseCaseClass = this as unknown as new () => UseCase<I, O, E, F>;
+
+    const run = async (): Promise<Result<O, E | Error, F | CallFailureType>> => {
+      let instance: UseCase<I, O, E, F>;
+
+      try {
+        instance = await resolveUseCase(UseCaseClass);
+      } catch (error) {
+        const resolutionError = error as DependencyResolutionError;
+        getDebugLogger().logFailure(
+          UseCaseClass.name,
+          resolutionError,
+          resolutionError.failureType,
+        );
+        return Failure(resolutionError, resolutionError.failureType, {}, UseCaseClass.name);
+      }
+
+      return instance.call(params, options ?? {});
+    };
+
+    return new ResultPromise(run(), options?.signal);
+  }
+
+  /**
+   * Composes use cases into a new use case class. Each step is called with the previous
+   * step's output; functions between steps map an output to the next input. The composite
+   * stops at the first failure and its Result carries the contexts of every step that ran.
+   *
+   * @example
+   * class CheckoutUseCase extends UseCase.pipe(
+   *   ReserveStockUseCase,
+   *   reservation => ({ amount: reservation.total }),
+   *   ChargeCardUseCase,
+   * ) {}
+   *
+   * @param steps Use case classes and mapper functions, in order
+   * @returns A use case class taking the first step's input and returning the last output
+   */
+  static pipe<A extends PipeStep>(a: A): Piped<[A]>;
+  static pipe<A extends PipeStep, B extends PipeStep<StepOutput<A>>>(a: A, b: B): Piped<[A, B]>;
+  static pipe<
+    A extends PipeStep,
+    B extends PipeStep<StepOutput<A>>,
+    C extends PipeStep<StepOutput<B>>,
+  >(a: A, b: B, c: C): Piped<[A, B, C]>;
+  static pipe<
+    A extends PipeStep,
+    B extends PipeStep<StepOutput<A>>,
+    C extends PipeStep<StepOutput<B>>,
+    D extends PipeStep<StepOutput<C>>,
+  >(a: A, b: B, c: C, d: D): Piped<[A, B, C, D]>;
+  static pipe<
+    A extends PipeStep,
+    B extends PipeStep<StepOutput<A>>,
+    C extends PipeStep<StepOutput<B>>,
+    D extends PipeStep<StepOutput<C>>,
+    G extends PipeStep<StepOutput<D>>,
+  >(a: A, b: B, c: C, d: D, g: G): Piped<[A, B, C, D, G]>;
+  static pipe<
+    A extends PipeStep,
+    B extends PipeStep<StepOutput<A>>,
+    C extends PipeStep<StepOutput<B>>,
+    D extends PipeStep<StepOutput<C>>,
+    G extends PipeStep<StepOutput<D>>,
+    H extends PipeStep<StepOutput<G>>,
+  >(a: A, b: B, c: C, d: D, g: G, h: H): Piped<[A, B, C, D, G, H]>;
+  static pipe(...steps: PipeStep[]): ComposedUseCaseClass<unknown, unknown, Error, string> {
+    const Pipe = class extends UseCase<unknown, unknown> {
+      static readonly [COMPOSITE_CLASS] = true;
+
+      execute(input: unknown, execution?: UseCaseExecution): Promise<Result<unknown>> {
+        return runPipe(steps, input, execution);
+      }
+    };
+    Object.defineProperty(Pipe, 'name', { value: compositeName('pipe', steps) });
+
+    return Pipe as unknown as ComposedUseCaseClass<unknown, unknown, Error, string>;
+  }
+
+  /**
+   * Composes use cases that run concurrently with the same input into a new use case class,
+   * whose output holds each child's output under its key. The contexts of the children are
+   * merged. See ParallelOptions for the concurrency cap and the failure semantics.
+   *
+   * @example
+   * class LoadDashboardUseCase extends UseCase.parallel({
+   *   user: GetUserUseCase,
+   *   perms: GetPermissionsUseCase,
+   * }) {}
+   *
+   * @param children Use case classes by output key
+   * @param options Concurrency cap and failure semantics
+   * @returns A use case class returning the record of the children's outputs
+   */
+  static parallel<const C extends ParallelChildren>(
+    children: C,
+    options?: ParallelOptions & { failFast?: true },
+  ): Parallel<C>;
+  static parallel<const C extends ParallelChildren>(
+    children: C,
+    options: ParallelOptions & { failFast: false },
+  ): Parallel<C, false>;
+  static parallel(
+    children: ParallelChildren,
+    options: ParallelOptions = {},
+  ): ComposedUseCaseClass<unknown, unknown, Error, string> {
+    const Parallel = class extends UseCase<unknown, unknown> {
+      static readonly [COMPOSITE_CLASS] = true;
+
+      execute(input: unknown, execution?: UseCaseExecution): Promise<Result<unknown>> {
+        return runParallel(children, options, input, execution);
+      }
+    };
+    Object.defineProperty(Parallel, 'name', {
+      value: compositeName('parallel', Object.values(children)),
+    });
+
+    return Parallel as unknown as ComposedUseCaseClass<unknown, unknown, Error, string>;
+  }
+
+  /**
+   * Composes a use case with fallbacks for some of its failure types into a new use case
+   * class. A failure of a routed type is handed to its branch: a use case class called with
+   * the same input, or a function of the error and the input. Other failures pass through.
+   * The branch that ran is recorded in `context.routes` (see Result.route()).
+   *
+   * @example
+   * class FindProductUseCase extends UseCase.route(FindProductInCacheUseCase, {
+   *   NOT_FOUND: FindProductInDatabaseUseCase,
+   *   TIMEOUT: (error, input) => staleProducts.get(input.id),
+   * }) {}
+   *
+   * @param primary Use case called first
+   * @param routes Branches keyed by failure type
+   * @returns A use case class returning the primary's output or a branch's
+   */
+  static route<P extends UseCaseClass, const R extends UseCaseRoutes<P>>(
+    primary: P,
+    routes: R,
+  ): Routed<P, R>;
+  static route(
+    primary: UseCaseClass,
+    routes: UseCaseRoutes<UseCaseClass>,
+  ): ComposedUseCaseClass<unknown, unknown, Error, string> {
+    const Route = class extends UseCase<unknown, unknown> {
+      static readonly [COMPOSITE_CLASS] = true;
+
+      execute(input: unknown, execution?: UseCaseExecution): Promise<Result<unknown>> {
+        return runRoute(primary, routes, input, execution);
+      }
+    };
+    Object.defineProperty(Route, 'name', { value: compositeName('route', [primary]) });
+
+    return Route as unknown as ComposedUseCaseClass<unknown, unknown, Error, string>;
   }
 }
+
+/**
+ * A concrete use case class, as taken by sagas and the other helpers composing use cases.
+ * `I`, `O`, `E` and `F` are inferred from the class's `execute`.
+ */
+export type UseCaseClass<I = any, O = any, E extends Error = any, F extends string = any> = {
+  new (...args: any[]): {
+    execute(input: I, execution?: UseCaseExecution): Promise<Result<O, E, F>>;
+  };
+  name: string;
+  call(params?: any, options?: CallOptions): ResultPromise<any, any, any>;
+};
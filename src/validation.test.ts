@@ -0,0 +1,153 @@
+import { ValidationError } from './errors';
+import { Validated, validate } from './validation';
+
+type SignUpInput = { name: string; email: string; age: number };
+
+const validateSignUp = (input: SignUpInput): Validated<SignUpInput> =>
+  validate(input)
+    .field('name', name => name.check(value => value.length >= 2, 'Name is too short', 'too_short'))
+    .field('email', email =>
+      email
+        .check(value => value.length > 0, 'Email is required', 'required')
+        .check(value => value.includes('@'), 'Email is invalid', 'invalid_format'),
+    )
+    .field('age', age => age.check(value => value >= 18, 'Must be an adult', 'too_small'));
+
+describe('Validated', () => {
+  describe('check method', () => {
+    it('should keep the value valid when every check passes', () => {
+      const validated = validate(10, 'amount').check(value => value > 0, 'Must be positive');
+
+      expect(validated.isValid()).toBe(true);
+      expect(validated.issues).toEqual([]);
+      expect(validated.value).toBe(10);
+    });
+
+    it('should accumulate every failing check instead of short-circuiting', () => {
+      const validated = validate('', 'email')
+        .check(value => value.length > 0, 'Email is required', 'required')
+        .check(value => value.includes('@'), 'Email is invalid', 'invalid_format');
+
+      expect(validated.isValid()).toBe(false);
+      expect(validated.issues).toEqual([
+        { path: 'email', message: 'Email is required', code: 'required' },
+        { path: 'email', message: 'Email is invalid', code: 'invalid_format' },
+      ]);
+    });
+
+    it('should fail the checks whose predicate throws on a missing field', () => {
+      const result = validate({} as SignUpInput)
+        .field('email', email =>
+          email.check(value => value.length > 0, 'Email is required', 'required'),
+        )
+        .toResult();
+
+      expect(result.getType()).toBe('VALIDATION_ERROR');
+      expect(result.getError().issues).toEqual([
+        { path: 'email', message: 'Email is required', code: 'required' },
+      ]);
+    });
+
+    it('should use the invalid code by default', () => {
+      const validated = validate(-1).check(value => value > 0, 'Must be positive');
+
+      expect(validated.issues).toEqual([
+        { path: '', message: 'Must be positive', code: 'invalid' },
+      ]);
+    });
+  });
+
+  describe('field method', () => {
+    it('should collect issues of every field with their paths', () => {
+      const validated = validateSignUp({ name: 'A', email: '', age: 12 });
+
+      expect(validated.issues.map(issue => [issue.path, issue.code])).toEqual([
+        ['name', 'too_short'],
+        ['email', 'required'],
+        ['email', 'invalid_format'],
+        ['age', 'too_small'],
+      ]);
+    });
+
+    it('should prefix nested paths', () => {
+      const validated = validate({ address: { zip: '' } }, 'user').field('address', address =>
+        address.field('zip', zip => zip.check(value => value.length === 5, 'Invalid zip')),
+      );
+
+      expect(validated.issues[0].path).toBe('user.address.zip');
+    });
+  });
+
+  describe('combine method', () => {
+    it('should combine a record keeping its shape', () => {
+      const validated = Validated.combine({
+        name: validate('Ana', 'name'),
+        age: validate(30, 'age'),
+      });
+
+      expect(validated.isValid()).toBe(true);
+      expect(validated.value).toEqual({ name: 'Ana', age: 30 });
+    });
+
+    it('should gather the issues of every input', () => {
+      const validated = Validated.combine([
+        validate('', 'name').check(value => value.length > 0, 'Name is required', 'required'),
+        validate(5, 'age'),
+        Validated.invalid({ path: 'terms', message: 'Terms not accepted', code: 'required' }),
+      ]);
+
+      expect(validated.issues.map(issue => issue.path)).toEqual(['name', 'terms']);
+    });
+  });
+
+  describe('atPath method', () => {
+    it('should prefix every issue path', () => {
+      const validated = validateSignUp({ name: 'A', email: 'a@b.c', age: 20 }).atPath('users.0');
+
+      expect(validated.issues).toEqual([
+        { path: 'users.0.name', message: 'Name is too short', code: 'too_short' },
+      ]);
+    });
+  });
+
+  describe('map method', () => {
+    it('should transform valid values', () => {
+      expect(validate(' ana ').map(value => value.trim()).value).toBe('ana');
+    });
+
+    it('should not run the transformation for invalid values', () => {
+      const fn = jest.fn();
+
+      validate('')
+        .check(value => value.length > 0, 'Required')
+        .map(fn);
+
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toResult method', () => {
+    it('should return a success for valid values', () => {
+      const input = { name: 'Ana', email: 'ana@test.com', age: 30 };
+
+      const result = validateSignUp(input).toResult({ step: 'validation' }, 'SignUpUseCase');
+
+      expect(result.isSuccess()).toBe(true);
+      expect(result.getValue()).toBe(input);
+      expect(result.context).toEqual({ step: 'validation' });
+      expect(result.useCaseClass).toBe('SignUpUseCase');
+    });
+
+    it('should return a single VALIDATION_ERROR failure with every issue', () => {
+      const result = validateSignUp({ name: '', email: 'invalid', age: 30 }).toResult();
+
+      expect(result.getType()).toBe('VALIDATION_ERROR');
+      expect(result.getError()).toBeInstanceOf(ValidationError);
+      expect(result.getError().issues).toEqual([
+        { path: 'name', message: 'Name is too short', code: 'too_short' },
+        { path: 'email', message: 'Email is invalid', code: 'invalid_format' },
+      ]);
+      expect(result.getError().message).toBe('name: Name is too short; email: Email is invalid');
+    });
+  });
+});
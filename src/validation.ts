@@ -0,0 +1,176 @@
+import { ValidationError } from './errors';
+import { Failure, type Result, Success } from './result';
+
+/**
+ * A single field-level validation problem.
+ * `path` locates the field (dot notation for nested fields), `code` is a stable
+ * machine-readable identifier and `message` is meant for humans.
+ */
+export type ValidationIssue = {
+  path: string;
+  message: string;
+  code: string;
+};
+
+export type ValidationFailureType = 'VALIDATION_ERROR';
+
+type ValidatedValues<I> = {
+  -readonly [K in keyof I]: I[K] extends Validated<infer T> ? T : never;
+};
+
+const joinPath = (prefix: string, path: string): string => {
+  if (!prefix) return path;
+  if (!path) return prefix;
+  return `${prefix}.${path}`;
+};
+
+const passes = <T>(predicate: (value: T) => boolean, value: T): boolean => {
+  try {
+    return predicate(value);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A value together with the validation issues found so far.
+ *
+ * Unlike Result, checks never short-circuit: every check runs and every issue is kept,
+ * and combine() gathers the issues of all its inputs (applicative combination).
+ * Call toResult() to get a single `VALIDATION_ERROR` failure carrying all of them.
+ */
+export class Validated<T> {
+  readonly value: T;
+  readonly issues: ValidationIssue[];
+  readonly path: string;
+
+  private constructor(value: T, issues: ValidationIssue[], path: string) {
+    this.value = value;
+    this.issues = issues;
+    this.path = path;
+  }
+
+  /**
+   * Starts validating a value located at `path`.
+   */
+  static of<T>(value: T, path = ''): Validated<T> {
+    return new Validated(value, [], path);
+  }
+
+  /**
+   * Creates an invalid value from one or more issues.
+   */
+  static invalid<T = never>(issues: ValidationIssue | ValidationIssue[]): Validated<T> {
+    return new Validated(undefined as T, Array.isArray(issues) ? issues : [issues], '');
+  }
+
+  /**
+   * Combines a tuple or record of validated values into one, keeping its shape and
+   * gathering the issues of every input.
+   *
+   * @param inputs Tuple, array or record of validated values
+   * @returns A validated value holding every input value
+   */
+  static combine<const I extends readonly Validated<any>[] | Record<string, Validated<any>>>(
+    inputs: I,
+  ): Validated<ValidatedValues<I>> {
+    const entries: [string | number, Validated<any>][] = Array.isArray(inputs)
+      ? inputs.map((input, index) => [index, input])
+      : Object.entries(inputs);
+
+    const values = Array.isArray(inputs)
+      ? entries.map(([, input]) => input.value)
+      : Object.fromEntries(entries.map(([key, input]) => [key, input.value]));
+
+    return new Validated(
+      values as ValidatedValues<I>,
+      entries.flatMap(([, input]) => input.issues),
+      '',
+    );
+  }
+
+  isValid(): boolean {
+    return this.issues.length === 0;
+  }
+
+  /**
+   * Adds an issue at this value's path when the predicate fails. A predicate that throws,
+   * for instance on a missing field, fails as well.
+   * The check runs even if previous checks failed.
+   *
+   * @param predicate Returns true when the value is valid
+   * @param message Human-readable message
+   * @param code Machine-readable code
+   * @returns A new validated value
+   */
+  check(predicate: (value: T) => boolean, message: string, code = 'invalid'): Validated<T> {
+    if (passes(predicate, this.value)) {
+      return this;
+    }
+
+    return new Validated(
+      this.value,
+      [...this.issues, { path: this.path, message, code }],
+      this.path,
+    );
+  }
+
+  /**
+   * Validates a nested field with its own checks, reporting issues under `path.field`.
+   *
+   * @param field Field name
+   * @param validate Receives the field value wrapped as a validated value
+   * @returns A new validated value with the field's issues added
+   */
+  field<K extends keyof T & string>(
+    field: K,
+    validate: (value: Validated<T[K]>) => Validated<T[K]>,
+  ): Validated<T> {
+    const fieldPath = joinPath(this.path, field);
+    const validated = validate(Validated.of(this.value?.[field] as T[K], fieldPath));
+
+    return new Validated(this.value, [...this.issues, ...validated.issues], this.path);
+  }
+
+  /**
+   * Prefixes every issue path, for reusing validators inside a larger structure.
+   */
+  atPath(prefix: string): Validated<T> {
+    return new Validated(
+      this.value,
+      this.issues.map(issue => ({ ...issue, path: joinPath(prefix, issue.path) })),
+      joinPath(prefix, this.path),
+    );
+  }
+
+  /**
+   * Transforms the value. The issues are kept as they are.
+   */
+  map<U>(fn: (value: T) => U): Validated<U> {
+    return new Validated(
+      this.isValid() ? fn(this.value) : (undefined as U),
+      this.issues,
+      this.path,
+    );
+  }
+
+  /**
+   * Converts into a Result: a success with the value, or a single `VALIDATION_ERROR`
+   * failure whose ValidationError lists every issue.
+   */
+  toResult(
+    context?: Record<string, any>,
+    useCaseClass?: string,
+  ): Result<T, ValidationError, ValidationFailureType> {
+    if (this.isValid()) {
+      return Success(this.value, context, useCaseClass);
+    }
+
+    return Failure(new ValidationError(this.issues), 'VALIDATION_ERROR', context, useCaseClass);
+  }
+}
+
+/**
+ * Shorthand for Validated.of().
+ */
+export const validate = <T>(value: T, path = ''): Validated<T> => Validated.of(value, path);